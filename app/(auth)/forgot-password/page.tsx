@@ -0,0 +1,9 @@
+import ForgotPasswordForm from '@/components/ForgotPasswordForm'
+
+
+const page = () => {
+  return < ForgotPasswordForm />
+    
+}
+
+export default page
@@ -0,0 +1,36 @@
+import InterviewEditor from '@/components/InterviewEditor';
+import VisibilitySelect from '@/components/VisibilitySelect';
+import { requireUser } from '@/lib/actions/auth.action';
+import { getInterviewById } from '@/lib/actions/general.action';
+import { redirect } from 'next/navigation';
+
+const Page = async ({ params }: RouteParams) => {
+  const { id } = await params;
+  const user = await requireUser();
+
+  const interview = await getInterviewById(id);
+
+  if (!interview || interview.userId !== user.id) redirect('/');
+
+  return (
+    <section className="section-feedback">
+      <div className="flex flex-col gap-2">
+        <h2 className="text-3xl font-bold capitalize">Edit {interview.role} Interview</h2>
+        <p className="text-light-400">
+          {interview.finalized
+            ? 'Changes apply to your next attempt.'
+            : 'Review the generated questions. Reword, reorder or replace them, then confirm to start practicing.'}
+        </p>
+        <VisibilitySelect interviewId={id} visibility={interview.visibility} />
+      </div>
+
+      <InterviewEditor
+        interviewId={id}
+        questions={interview.questions}
+        finalized={interview.finalized}
+      />
+    </section>
+  );
+};
+
+export default Page;
@@ -0,0 +1,183 @@
+import Link from "next/link";
+import dayjs from "dayjs";
+import { redirect } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { requireUser } from "@/lib/actions/auth.action";
+import { getFeedbacksByInterviewId, getInterviewById } from "@/lib/actions/general.action";
+import { compareAttempts } from "@/lib/attempts";
+import { isScoredFeedback } from "@/lib/feedback";
+
+const selectClassName = "!bg-dark-200 !rounded-full !min-h-12 !px-5 text-light-100";
+
+const formatDelta = (delta: number | null) => (delta === null ? "–" : delta > 0 ? `+${delta}` : `${delta}`);
+
+const deltaClassName = (delta: number | null) =>
+  cn("font-bold", delta !== null && delta > 0 && "text-success-100", delta !== null && delta < 0 && "text-destructive-100");
+
+const unscoredLabels: Partial<Record<FeedbackStatus, string>> = {
+  pending: "Scoring",
+  processing: "Scoring",
+  failed: "Failed",
+  incomplete: "Incomplete",
+};
+
+const Page = async ({ params, searchParams }: RouteParams) => {
+  const { id } = await params;
+  const { a, b } = await searchParams;
+  const user = await requireUser();
+
+  const interview = await getInterviewById(id);
+  if (!interview) redirect("/");
+
+  // newest first, so by default the latest retake is compared against the one before it
+  const attempts = await getFeedbacksByInterviewId({ interviewId: id, userId: user.id });
+
+  if (attempts.length === 0) redirect(`/interview/${id}`);
+
+  const attemptNumber = (feedbackId: string) => attempts.length - attempts.findIndex((item) => item.id === feedbackId);
+  const label = (feedback: Feedback) =>
+    `Attempt ${attemptNumber(feedback.id)} · ${dayjs(feedback.createdAt).format("MMM D, YYYY h:mm A")}`;
+
+  // attempts without a score yet, or too short to get one, have nothing to compare
+  const scoredAttempts = attempts.filter(isScoredFeedback);
+  const after = scoredAttempts.find((item) => item.id === b) ?? scoredAttempts[0];
+  const before = after && (
+    scoredAttempts.find((item) => item.id === a && item.id !== after.id) ?? scoredAttempts.find((item) => item.id !== after.id)
+  );
+  const comparison = before && after ? compareAttempts(before, after) : null;
+
+  return (
+    <section className="section-feedback">
+      <h1 className="text-4xl font-semibold text-center">
+        Attempt History - <span className="capitalize">{interview.role}</span> Interview
+      </h1>
+
+      <div className="flex flex-col gap-3">
+        {attempts.map((feedback) => (
+          <div
+            key={feedback.id}
+            className="flex flex-row justify-between items-center gap-4 rounded-2xl bg-dark-200 px-6 py-4 max-sm:flex-col max-sm:items-start"
+          >
+            <p>{label(feedback)}</p>
+            <div className="flex flex-row items-center gap-4">
+              {isScoredFeedback(feedback) ? (
+                <p className="font-bold">{feedback.totalScore}/100</p>
+              ) : (
+                <span className="px-3 py-1 text-sm rounded-full bg-destructive-200/20 text-destructive-100">
+                  {unscoredLabels[feedback.status!]}
+                </span>
+              )}
+              <Button asChild className="btn-secondary">
+                <Link href={`/interview/${id}/feedback?feedbackId=${feedback.id}`}>View Feedback</Link>
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {before && after && comparison && (
+        <>
+          <form className="flex flex-row flex-wrap items-center gap-4">
+            <p>Compare</p>
+            <select name="a" defaultValue={before.id} className={selectClassName}>
+              {scoredAttempts.map((feedback) => (
+                <option key={feedback.id} value={feedback.id}>{label(feedback)}</option>
+              ))}
+            </select>
+            <p>with</p>
+            <select name="b" defaultValue={after.id} className={selectClassName}>
+              {scoredAttempts.map((feedback) => (
+                <option key={feedback.id} value={feedback.id}>{label(feedback)}</option>
+              ))}
+            </select>
+            <Button type="submit" className="btn-primary">Compare</Button>
+          </form>
+
+          <div className="flex flex-col gap-4">
+            <h2>Scores</h2>
+            <div className="grid grid-cols-4 gap-x-4 gap-y-2 rounded-2xl bg-dark-200 px-6 py-5">
+              <p className="text-sm text-light-400">Category</p>
+              <p className="text-sm text-light-400">Attempt {attemptNumber(before.id)}</p>
+              <p className="text-sm text-light-400">Attempt {attemptNumber(after.id)}</p>
+              <p className="text-sm text-light-400">Change</p>
+
+              <p className="font-bold">Total</p>
+              <p>{before.totalScore}</p>
+              <p>{after.totalScore}</p>
+              <p className={deltaClassName(comparison.totalDelta)}>{formatDelta(comparison.totalDelta)}</p>
+
+              {comparison.categoryDeltas.map((category) => (
+                <div key={category.name} className="contents">
+                  <p>{category.name}</p>
+                  <p>{category.before ?? "–"}</p>
+                  <p>{category.after ?? "–"}</p>
+                  <p className={deltaClassName(category.delta)}>{formatDelta(category.delta)}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <h3>Previously Flagged Weaknesses</h3>
+            {comparison.weaknesses.length > 0 ? (
+              <ul className="flex flex-col gap-2">
+                {comparison.weaknesses.map(({ area, addressed }, index) => (
+                  <li key={index} className="flex flex-row items-start gap-3">
+                    <span
+                      className={cn(
+                        "px-3 py-1 text-sm rounded-full shrink-0",
+                        addressed ? "bg-success-200/20 text-success-100" : "bg-destructive-200/20 text-destructive-100"
+                      )}
+                    >
+                      {addressed ? "Addressed" : "Still flagged"}
+                    </span>
+                    <p>{area}</p>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p>No weaknesses were flagged in attempt {attemptNumber(before.id)}.</p>
+            )}
+          </div>
+
+          <div className="flex flex-row gap-6 max-sm:flex-col">
+            {[before, after].map((feedback) => (
+              <div key={feedback.id} className="flex-1 flex flex-col gap-3">
+                <h3>Attempt {attemptNumber(feedback.id)}</h3>
+                <p className="font-bold">Strengths</p>
+                <ul>
+                  {feedback.strengths.map((strength, index) => (
+                    <li
+                      key={index}
+                      className={cn(feedback === after && comparison.newStrengths.includes(strength) && "text-success-100")}
+                    >
+                      {strength}
+                    </li>
+                  ))}
+                </ul>
+                <p className="font-bold">Areas for Improvement</p>
+                <ul>
+                  {feedback.areasForImprovement.map((area, index) => (
+                    <li key={index}>{area}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="buttons">
+        <Button asChild className="btn-primary flex-1">
+          <Link href={`/interview/${id}`}>Retake Interview</Link>
+        </Button>
+        <Button asChild className="btn-secondary flex-1">
+          <Link href={`/interview/${id}/feedback`}>Latest Feedback</Link>
+        </Button>
+      </div>
+    </section>
+  );
+};
+
+export default Page;
@@ -1,24 +1,107 @@
-import { getCurrentUser } from "@/lib/actions/auth.action";
-import { getFeedbackByInterviewId, getInterviewById } from "@/lib/actions/general.action";
+import { requireUser } from "@/lib/actions/auth.action";
+import { getFeedbackById, getFeedbackByInterviewId, getInterviewById } from "@/lib/actions/general.action";
 import Image from "next/image";
 import { redirect } from "next/navigation";
 import dayjs from "dayjs";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
+import QuestionBreakdown from "@/components/QuestionBreakdown";
+import FeedbackShare from "@/components/FeedbackShare";
+import FeedbackProgress from "@/components/FeedbackProgress";
+import { canRetryFeedback, isPendingFeedback, isScoredFeedback } from "@/lib/feedback";
 
-const Page = async ({ params }: RouteParams) => {
+const Page = async ({ params, searchParams }: RouteParams) => {
   const { id } = await params;
-  const user = await getCurrentUser();
+  const { feedbackId } = await searchParams;
+  const user = await requireUser();
 
-  const interview = await getInterviewById(id);
+  // reviewers open a specific attempt through the link the owner shared
+  const interview = await getInterviewById(id, feedbackId);
   if(!interview) redirect('/');
 
-    const feedback = await getFeedbackByInterviewId({
-      interviewId: id,
-      userId: user?.id!,
-    });
+    const feedback = feedbackId
+      ? await getFeedbackById(feedbackId)
+      : await getFeedbackByInterviewId({
+          interviewId: id,
+          userId: user.id,
+        });
+
+    if(feedbackId && feedback?.interviewId !== id) redirect('/');
+
+    const isOwner = feedback?.userId === user.id;
+
+  if (feedback && (isPendingFeedback(feedback) || feedback.status === 'failed')) {
+    return (
+      <section className = "section-feedback">
+        <div className = "flex flex-row justify-center">
+          <h1 className="text-4xl font-semibold text-center">
+            Feedback on the Interview - {" "}
+            <span className = "capitalize">{interview.role}</span> Interview
+          </h1>
+        </div>
+
+        <FeedbackProgress
+          feedbackId={feedback.id}
+          status={feedback.status!}
+          error={feedback.error}
+          canRetry={canRetryFeedback(feedback)}
+          isOwner={isOwner}
+        />
+
+        <div className = "buttons">
+          {isOwner && feedback.sessionId && (
+            <Button asChild className = "btn-secondary flex-1">
+              <Link href = {`/interview/${id}/sessions/${feedback.sessionId}`}>Review Transcript</Link>
+            </Button>
+          )}
+          <Button asChild className = "btn-secondary flex-1">
+            <Link href = "/">Home</Link>
+          </Button>
+        </div>
+      </section>
+    )
+  }
+
+  if (feedback && !isScoredFeedback(feedback)) {
+    return (
+      <section className = "section-feedback">
+        <div className = "flex flex-col items-center gap-4">
+          <h1 className="text-4xl font-semibold text-center">
+            Incomplete Attempt - {" "}
+            <span className = "capitalize">{interview.role}</span> Interview
+          </h1>
+          <span className="px-4 py-1 rounded-full bg-destructive-200/20 text-destructive-100">Not scored</span>
+          <p className="text-light-400">{dayjs(feedback.createdAt).format("MMM D, YYYY h:mm A")}</p>
+        </div>
+
+        <hr />
+
+        <p>This attempt was too short to score, so no score was given:</p>
+        <ul>
+          {feedback.assessment?.reasons.map((reason, index) => (
+            <li key = {index}>{reason}</li>
+          ))}
+        </ul>
+
+        <div className = "buttons">
+          {isOwner && (
+            <Button asChild className = "btn-primary flex-1">
+              <Link href = {`/interview/${id}`}>Continue Interview</Link>
+            </Button>
+          )}
+          {isOwner && (
+            <Button asChild className = "btn-secondary flex-1">
+              <Link href = {`/interview/${id}/feedback/history`}>Attempt History</Link>
+            </Button>
+          )}
+          <Button asChild className = "btn-secondary flex-1">
+            <Link href = "/">Home</Link>
+          </Button>
+        </div>
+      </section>
+    )
+  }
 
-    console.log(feedback);
   return (
     <section className = "section-feedback">
       <div className = "flex flex-row justify-center">
@@ -68,6 +151,8 @@ const Page = async ({ params }: RouteParams) => {
       ))}
     </div>
 
+    <QuestionBreakdown questionScores={feedback?.questionScores ?? []} />
+
     <div className = "flex flex-col gap-3">
       <h3>Strengths</h3>
       <ul>
@@ -86,7 +171,29 @@ const Page = async ({ params }: RouteParams) => {
       </ul>
     </div>
 
+    {isOwner && feedback && (
+      <FeedbackShare interviewId={id} feedbackId={feedback.id} sharedWith={feedback.sharedWith ?? []} />
+    )}
+
     <div className = "buttons">
+      {isOwner && feedback?.sessionId && (
+        <Button className = "btn-primary flex-1">
+          <Link href = {`/interview/${id}/sessions/${feedback.sessionId}`} className = "flex w-full justify-center">
+            <p className="text-sm font-semibold text-center">
+                Review Transcript
+            </p>
+          </Link>
+        </Button>
+      )}
+      {isOwner && (
+        <Button className = "btn-secondary flex-1">
+          <Link href = {`/interview/${id}/feedback/history`} className = "flex w-full justify-center">
+            <p className="text-sm font-semibold text-primary-200 text-center">
+                Attempt History
+            </p>
+          </Link>
+        </Button>
+      )}
       <Button className = "btn-secondary flex-1">
         <Link href = "/" className = "flex w-full justify-center">
           <p className="text-sm font-semibold text-primary-200 text-center">
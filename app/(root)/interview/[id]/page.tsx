@@ -1,35 +1,79 @@
 import Agent from '@/components/Agent';
-import { getCurrentUser } from '@/lib/actions/auth.action';
-import { getInterviewById } from '@/lib/actions/general.action';
+import ChatInterview from '@/components/ChatInterview';
+import { isSystemDesignInterview } from '@/lib/whiteboard';
+import { requireUser } from '@/lib/actions/auth.action';
+import { getInterviewById, getSessionDraft } from '@/lib/actions/general.action';
 import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
 
-const Page = async( {params}: RouteParams) => {
+const Page = async( {params, searchParams}: RouteParams) => {
     const {id} = await params;
-    const user = await getCurrentUser();
-    const interview = await getInterviewById(id);
+    const {mode} = await searchParams;
+    const user = await requireUser();
+
+    const [interview, draft] = await Promise.all([
+      getInterviewById(id),
+      getSessionDraft(id),
+    ]);
 
     if(!interview) redirect('/')
 
+    const isOwner = interview.userId === user.id;
+    const isChat = mode === 'chat';
+    const questions = interview.questions.map((question) => question.text);
+
+    // drafts can only be taken once the owner has confirmed the questions
+    if(!interview.finalized) redirect(isOwner ? `/interview/${id}/edit` : '/')
+
   return (
     <div className="space-y-8">
       <div className="flex flex-col gap-6">
         <div className="flex flex-col gap-4">
-          <div className="flex flex-col gap-2">
-            <h2 className="text-3xl font-bold capitalize">{interview.role} Interview</h2>
-            <span className="bg-dark-200 px-4 py-2 rounded-lg text-sm font-medium capitalize w-fit">
-              {interview.type}
-            </span>
+          <div className="flex flex-row justify-between items-start gap-4">
+            <div className="flex flex-col gap-2">
+              <h2 className="text-3xl font-bold capitalize">{interview.role} Interview</h2>
+              <span className="bg-dark-200 px-4 py-2 rounded-lg text-sm font-medium capitalize w-fit">
+                {interview.type}
+              </span>
+            </div>
+            {isOwner && (
+              <Button asChild className="btn-secondary">
+                <Link href={`/interview/${id}/edit`}>Edit Questions</Link>
+              </Button>
+            )}
           </div>
         </div>
       </div>
+      <div className="flex flex-row gap-2">
+        <Button asChild className={isChat ? 'btn-secondary' : 'btn-primary'}>
+          <Link href={`/interview/${id}`}>Voice</Link>
+        </Button>
+        <Button asChild className={isChat ? 'btn-primary' : 'btn-secondary'}>
+          <Link href={`/interview/${id}?mode=chat`}>Chat</Link>
+        </Button>
+      </div>
       <div className="mt-10">
-        <Agent 
-          userName={user?.name || ''}
-          userId={user?.id}
-          interviewId={id}
-          type="interview"
-          questions={interview.questions}
-        />
+        {isChat ? (
+          <ChatInterview
+            userId={user.id}
+            interviewId={id}
+            questions={questions}
+          />
+        ) : (
+          <Agent 
+            userName={user.name}
+            userId={user.id}
+            userAvatar={user.avatarUrl}
+            preferences={user}
+            draft={draft}
+            interviewId={id}
+            type="interview"
+            questions={questions}
+            codingChallenge={interview.codingChallenge}
+            showWhiteboard={isSystemDesignInterview(interview.type)}
+          />
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,75 @@
+import { requireUser } from "@/lib/actions/auth.action";
+import { getInterviewById, getSessionById } from "@/lib/actions/general.action";
+import TranscriptReplay from "@/components/TranscriptReplay";
+import Whiteboard from "@/components/Whiteboard";
+import { hasDiagram } from "@/lib/whiteboard";
+import { Button } from "@/components/ui/button";
+import Image from "next/image";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import dayjs from "dayjs";
+
+const endReasonLabels: Record<SessionEndReason, string> = {
+  'candidate-ended': 'Ended by you',
+  'assistant-ended': 'Ended by the interviewer',
+  'error': 'Call dropped',
+};
+
+const Page = async ({ params }: RouteParams) => {
+  const { id, sessionId } = await params;
+  await requireUser();
+
+  const [interview, session] = await Promise.all([
+    getInterviewById(id),
+    getSessionById(sessionId),
+  ]);
+
+  if (!interview || !session || session.interviewId !== id) redirect('/');
+
+  return (
+    <section className="section-feedback">
+      <div className="flex flex-row justify-center">
+        <h1 className="text-4xl font-semibold">
+          Transcript - <span className="capitalize">{interview.role}</span> Interview
+        </h1>
+      </div>
+
+      <div className="flex flex-row justify-center gap-5 flex-wrap">
+        <div className="flex flex-row gap-2">
+          <Image src="/calendar.svg" width={22} height={22} alt="calendar" />
+          <p>{dayjs(session.startedAt).format("MMM D, YYYY h:mm A")}</p>
+        </div>
+        <p>Duration: {Math.floor(session.duration / 60)}m {session.duration % 60}s</p>
+        <p>{endReasonLabels[session.endReason]}</p>
+      </div>
+
+      <hr />
+
+      {hasDiagram(session.diagram) && (
+        <div className="flex flex-col gap-3">
+          <h3>Your Diagram</h3>
+          <Whiteboard diagram={session.diagram} />
+        </div>
+      )}
+
+      <TranscriptReplay transcript={session.transcript} startedAt={session.startedAt} />
+
+      <div className="buttons">
+        {session.feedbackId && (
+          <Button className="btn-primary flex-1">
+            <Link href={`/interview/${id}/feedback?feedbackId=${session.feedbackId}`} className="flex w-full justify-center">
+              <p className="text-sm font-semibold text-center">View Feedback</p>
+            </Link>
+          </Button>
+        )}
+        <Button className="btn-secondary flex-1">
+          <Link href="/" className="flex w-full justify-center">
+            <p className="text-sm font-semibold text-primary-200 text-center">Home</p>
+          </Link>
+        </Button>
+      </div>
+    </section>
+  );
+};
+
+export default Page;
@@ -0,0 +1,29 @@
+import InterviewForm from '@/components/InterviewForm'
+import Link from 'next/link'
+import { requireUser } from '@/lib/actions/auth.action'
+
+const Page = async () => {
+  const user = await requireUser()
+
+  return (
+    <div className="flex flex-col items-center gap-6">
+      <h3>Interview Generation</h3>
+
+      <InterviewForm
+        role={user.targetRole}
+        level={user.experienceLevel}
+        techstack={user.preferredTechStack}
+        amount={user.defaultQuestionCount}
+      />
+
+      <p className="text-center">
+        Prefer talking it through?
+        <Link href="/interview" className="font-bold text-user-primary ml-1">
+          Use the voice generator
+        </Link>
+      </p>
+    </div>
+  )
+}
+
+export default Page
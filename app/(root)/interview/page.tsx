@@ -1,16 +1,25 @@
 import Agent from '@/components/Agent'
-import { getCurrentUser } from '@/lib/actions/auth.action'
+import { requireUser } from '@/lib/actions/auth.action'
+import Link from 'next/link'
 import React from 'react'
 
 const Page = async() => {
-  const user = await getCurrentUser();
+  const user = await requireUser();
+
   return (
     <>
         <h3>Interview Generation</h3>
 
-        <Agent userName = {user?.name} userId = {user?.id} type = "generate"/>
+        <Agent userName = {user.name} userId = {user.id} userAvatar = {user.avatarUrl} preferences = {user} type = "generate"/>
+
+        <p className="text-center mt-6">
+          No microphone or in a noisy place?
+          <Link href="/interview/new" className="font-bold text-user-primary ml-1">
+            Build your interview with a form
+          </Link>
+        </p>
     </>
   )
 }
 
-export default Page
\ No newline at end of file
+export default Page
@@ -4,17 +4,25 @@ import Image from "next/image";
 
 
 import AuthButton from '@/components/AuthButton';
+import SessionRefresher from '@/components/SessionRefresher';
+import { getSessionExpiry, requireUser } from '@/lib/actions/auth.action';
 
 const RootLayout =async({children}:{children: ReactNode}) => {
+  await requireUser();
+  const sessionExpiresAt = await getSessionExpiry();
 
   return (
     <div className="root-layout">
+      <SessionRefresher expiresAt={sessionExpiresAt} />
       <nav className="flex justify-between items-center p-4 border-b">
         <Link href="/" className="flex items-center gap-2">
           <Image src="/logo.png" alt="Logo" width={38} height={32} />
           <h2 className="text-primary-100">Intervia</h2>
         </Link>
         <div className="flex items-center gap-4">
+          <Link href="/search" className="text-light-100 hover:text-primary-200">Search</Link>
+          <Link href="/progress" className="text-light-100 hover:text-primary-200">Progress</Link>
+          <Link href="/profile" className="text-light-100 hover:text-primary-200">Profile</Link>
           <AuthButton />
         </div>
       </nav>
@@ -25,4 +33,4 @@ const RootLayout =async({children}:{children: ReactNode}) => {
   );
 }
 
-export default RootLayout
\ No newline at end of file
+export default RootLayout
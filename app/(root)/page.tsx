@@ -2,76 +2,59 @@ import React from 'react';
 import { Button } from "@/components/ui/button";
 import Link from 'next/link';
 import InterviewCard from '@/components/InterviewCard';
-import { getCurrentUser } from '@/lib/actions/auth.action';
-import { getInterviewByUserId, getLatestInterviews, getFeedbackByInterviewId } from "@/lib/actions/general.action";
+import { requireUser } from '@/lib/actions/auth.action';
+import { getInterviewByUserId, getLatestInterviews, getLatestFeedbackByInterviewIds } from "@/lib/actions/general.action";
 
-
-interface Interview {
-  id: string;
-  role: string;
-  type: string;
-  techstack: string[];
-  createdAt: string;
-  userId: string;
-  level: string;
-  questions: string[];
-  finalized: boolean;
+interface PaginationProps {
+  cursor?: string;
+  nextCursor: string | null;
+  href: (cursor?: string) => string;
 }
 
+const Pagination = ({ cursor, nextCursor, href }: PaginationProps) => {
+  if (!cursor && !nextCursor) return null;
 
-const safeLength = (arr: any[] | null | undefined) => arr?.length ?? 0;
-
-interface InterviewWithFeedback extends Omit<Interview, 'createdAt'> {
-  hasFeedback: boolean;
-  feedback?: any; 
-  createdAt?: string | Date;
-}
+  return (
+    <div className="flex flex-row justify-center gap-4 mt-6">
+      {cursor && (
+        <Button asChild className="btn-secondary">
+          <Link href={href()}>Back to Newest</Link>
+        </Button>
+      )}
+      {nextCursor && (
+        <Button asChild className="btn-secondary">
+          <Link href={href(nextCursor)}>Next Page</Link>
+        </Button>
+      )}
+    </div>
+  );
+};
 
-const Page = async () => {
-  const user = await getCurrentUser();
-  
-  if (!user) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        <p>Please sign in to view interviews</p>
-      </div>
-    );
-  }
+const Page = async ({ searchParams }: RouteParams) => {
+  const { mine, community } = await searchParams;
+  const user = await requireUser();
 
-  
-  const [userInterviews = [], latestInterviews = []] = await Promise.all([
-    getInterviewByUserId(user.id) as Promise<Interview[]>,
-    getLatestInterviews({ userId: user.id }) as Promise<Interview[]>
+  const [drafts, myInterviews, communityInterviews] = await Promise.all([
+    getInterviewByUserId(user.id, { finalized: false, limit: 20 }),
+    getInterviewByUserId(user.id, { finalized: true, cursor: mine }),
+    getLatestInterviews({ userId: user.id, cursor: community }),
   ]);
 
-  //fetch feedback for each interview
-  const interviewsWithFeedback = await Promise.all(
-    (latestInterviews || []).map(async (interview) => {
-      if (!interview?.id) return null;
-      
-      const feedback = await getFeedbackByInterviewId({
-        interviewId: interview.id,
-        userId: user.id
-      });
-      
-      return {
-        id: interview.id,
-        role: interview.role,
-        type: interview.type,
-        techstack: interview.techstack || [],
-        createdAt: interview.createdAt,
-        userId: interview.userId,
-        level: interview.level,
-        questions: interview.questions || [],
-        finalized: interview.finalized || false,
-        hasFeedback: !!feedback?.finalAssessment,
-        feedback
-      } as InterviewWithFeedback;
-    })
-  ).then(interviews => interviews.filter(Boolean) as InterviewWithFeedback[]);
+  // one batched lookup instead of a feedback query per card
+  const feedbackByInterviewId = await getLatestFeedbackByInterviewIds({
+    interviewIds: [...myInterviews.interviews, ...communityInterviews.interviews].map((interview) => interview.id),
+    userId: user.id,
+  });
+
+  // each section pages on its own, keeping the other section's cursor in the URL
+  const pageHref = (key: 'mine' | 'community', cursor?: string) => {
+    const query = new URLSearchParams({ ...(mine && { mine }), ...(community && { community }) });
 
-  const hasPastInterviews = safeLength(userInterviews) > 0;
-  const hasUpcomingInterviews = safeLength(latestInterviews) > 0;
+    if (cursor) query.set(key, cursor);
+    else query.delete(key);
+
+    return query.size ? `/?${query}` : '/';
+  };
 
   return (
     <>
@@ -84,31 +67,80 @@ const Page = async () => {
             <p className="text-lg text-gray-300 text-center">
               Practice on real interview questions & get instant feedback
             </p>
-            <div className="flex justify-center">
+            <div className="flex justify-center gap-4 flex-wrap">
               <Button asChild className="btn-primary bg-violet-600 hover:bg-violet-700">
                 <Link href="/interview">Generate Interview</Link>
               </Button>
+              <Button asChild className="btn-secondary">
+                <Link href="/interview/new">Build Manually</Link>
+              </Button>
+              <Button asChild className="btn-secondary">
+                <Link href="/progress">My Progress</Link>
+              </Button>
             </div>
           </div>
         </div>
       </section>
 
+      {drafts.interviews.length > 0 && (
+        <section className="container mx-auto px-4 mt-5">
+          <h2 className="text-2xl font-bold mb-6">Drafts Awaiting Review</h2>
+          <div className="flex flex-col gap-3">
+            {drafts.interviews.map((interview) => (
+              <div key={interview.id} className="flex flex-row justify-between items-center gap-4 rounded-2xl bg-dark-200 px-6 py-4">
+                <p className="capitalize">
+                  {interview.role} Interview · {interview.questions.length} questions
+                </p>
+                <Button asChild className="btn-primary">
+                  <Link href={`/interview/${interview.id}/edit`}>Review Questions</Link>
+                </Button>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section className="container mx-auto px-4 mt-5">
+        <h2 className="text-2xl font-bold mb-6">My Interviews</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {myInterviews.interviews.length > 0 ? (
+            myInterviews.interviews.map((interview) => (
+              <InterviewCard 
+                key={interview.id} 
+                {...interview} 
+                userId={user.id}
+                feedback={feedbackByInterviewId[interview.id]}
+              />
+            ))
+          ) : (
+            <p className="text-gray-500">You haven&apos;t created any interviews yet.</p>
+          )}
+        </div>
+        <Pagination cursor={mine} nextCursor={myInterviews.nextCursor} href={(cursor) => pageHref('mine', cursor)} />
+      </section>
+
       <section className="container mx-auto px-4 mt-5">
-        <h2 className="text-2xl font-bold mb-6">Take an Interview</h2>
+        <div className="flex flex-row justify-between items-center gap-4 mb-6">
+          <h2 className="text-2xl font-bold">Community Interviews</h2>
+          <Button asChild className="btn-secondary">
+            <Link href="/search">Search Interviews</Link>
+          </Button>
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {hasUpcomingInterviews ? (
-            interviewsWithFeedback.map((interview) => (
+          {communityInterviews.interviews.length > 0 ? (
+            communityInterviews.interviews.map((interview) => (
               <InterviewCard 
                 key={interview.id} 
                 {...interview} 
                 userId={user.id}
-                feedback={interview.feedback}
+                feedback={feedbackByInterviewId[interview.id]}
               />
             ))
           ) : (
             <p className="text-gray-500">There are no interviews available.</p>
           )}
         </div>
+        <Pagination cursor={community} nextCursor={communityInterviews.nextCursor} href={(cursor) => pageHref('community', cursor)} />
       </section>
     </>
   );
@@ -0,0 +1,16 @@
+import ProfileForm from '@/components/ProfileForm'
+import { requireUser } from '@/lib/actions/auth.action'
+
+const Page = async () => {
+  const user = await requireUser()
+
+  return (
+    <div className="flex flex-col items-center gap-6">
+      <h3>Your Profile</h3>
+
+      <ProfileForm user={user} />
+    </div>
+  )
+}
+
+export default Page
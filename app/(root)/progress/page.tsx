@@ -0,0 +1,121 @@
+import Link from "next/link";
+import dayjs from "dayjs";
+import { Button } from "@/components/ui/button";
+import TrendChart from "@/components/TrendChart";
+import { requireUser } from "@/lib/actions/auth.action";
+import { getFeedbackByUserId, getInterviewsByIds } from "@/lib/actions/general.action";
+import { buildProgress } from "@/lib/progress";
+
+const Page = async () => {
+  const user = await requireUser();
+  const feedback = await getFeedbackByUserId(user.id);
+
+  // attempts can point at community interviews, which may since have been made private
+  const interviewIds = [...new Set(feedback.map((item) => item.interviewId))];
+  const interviews = await getInterviewsByIds(interviewIds);
+
+  const progress = buildProgress(feedback, interviews);
+
+  if (progress.attempts.length === 0) {
+    return (
+      <section className="section-feedback">
+        <h1 className="text-4xl font-semibold text-center">My Progress</h1>
+        <p className="text-center">Finish your first interview to start tracking your progress.</p>
+        <div className="buttons">
+          <Button asChild className="btn-primary flex-1">
+            <Link href="/">Find an Interview</Link>
+          </Button>
+        </div>
+      </section>
+    );
+  }
+
+  const stats = [
+    { label: "Attempts", value: progress.attempts.length },
+    { label: "Average score", value: `${progress.averageScore}/100` },
+    { label: "Best score", value: `${progress.bestScore}/100` },
+    { label: "Current streak", value: `${progress.currentStreak} ${progress.currentStreak === 1 ? "day" : "days"}` },
+    { label: "Longest streak", value: `${progress.longestStreak} ${progress.longestStreak === 1 ? "day" : "days"}` },
+  ];
+
+  return (
+    <section className="section-feedback">
+      <h1 className="text-4xl font-semibold text-center">My Progress</h1>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="flex flex-col gap-1 rounded-2xl bg-dark-200 px-5 py-4">
+            <p className="text-sm text-light-400">{stat.label}</p>
+            <p className="text-xl font-bold text-primary-200">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-4">
+        <h2>Total Score</h2>
+        <TrendChart
+          series={[
+            {
+              name: "Total score",
+              points: progress.attempts.map((attempt) => ({ date: attempt.createdAt, score: attempt.totalScore })),
+            },
+          ]}
+        />
+      </div>
+
+      {progress.categoryTrends.length > 0 && (
+        <div className="flex flex-col gap-4">
+          <h2>Scores by Category</h2>
+          <TrendChart series={progress.categoryTrends} />
+
+          <div className="flex flex-row gap-4 max-sm:flex-col">
+            {progress.bestCategory && (
+              <div className="flex-1 rounded-2xl bg-dark-200 px-6 py-4">
+                <p className="text-sm text-light-400">Strongest category</p>
+                <p className="font-bold text-success-100">
+                  {progress.bestCategory.name} ({progress.bestCategory.average}/100 on average)
+                </p>
+              </div>
+            )}
+            {progress.worstCategory && (
+              <div className="flex-1 rounded-2xl bg-dark-200 px-6 py-4">
+                <p className="text-sm text-light-400">Needs the most work</p>
+                <p className="font-bold text-destructive-100">
+                  {progress.worstCategory.name} ({progress.worstCategory.average}/100 on average)
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-4">
+        <h2>Every Attempt</h2>
+        {[...progress.attempts].reverse().map((attempt) => (
+          <div
+            key={attempt.feedbackId}
+            className="flex flex-row justify-between items-center gap-4 rounded-2xl bg-dark-200 px-6 py-4 max-sm:flex-col max-sm:items-start"
+          >
+            <div className="flex flex-col gap-1">
+              <p className="font-bold capitalize">{attempt.role} Interview</p>
+              <p className="text-sm text-light-400">
+                {dayjs(attempt.createdAt).format("MMM D, YYYY h:mm A")}
+                {attempt.type && ` · ${attempt.type}`}
+              </p>
+            </div>
+            <div className="flex flex-row items-center gap-4">
+              <p className="font-bold">{attempt.totalScore}/100</p>
+              <Button asChild className="btn-secondary">
+                <Link href={`/interview/${attempt.interviewId}/feedback?feedbackId=${attempt.feedbackId}`}>
+                  View Feedback
+                </Link>
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default Page;
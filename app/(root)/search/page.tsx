@@ -0,0 +1,100 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import InterviewCard from "@/components/InterviewCard";
+import { requireUser } from "@/lib/actions/auth.action";
+import { getLatestFeedbackByInterviewIds, searchInterviews } from "@/lib/actions/general.action";
+import { interviewLevels, interviewTypes } from "@/constants";
+
+const selectClassName = "!bg-dark-200 !rounded-full !min-h-12 !px-5 text-light-100";
+
+// Filters live in the query string, so every search can be bookmarked or shared.
+const Page = async ({ searchParams }: RouteParams) => {
+  const { q = "", role = "", level = "", type = "", techstack = "", sort = "recent" } = await searchParams;
+  const user = await requireUser();
+
+  const { interviews, isPartial } = await searchInterviews({
+    text: q,
+    role,
+    level,
+    type,
+    techstack: techstack.split(","),
+    sort: sort === "popular" ? "popular" : "recent",
+  });
+
+  const feedbackByInterviewId = await getLatestFeedbackByInterviewIds({
+    interviewIds: interviews.map((interview) => interview.id),
+    userId: user.id,
+  });
+
+  const hasFilters = [q, role, level, type, techstack].some(Boolean);
+
+  return (
+    <section className="container mx-auto px-4 flex flex-col gap-8">
+      <h2 className="text-2xl font-bold">Find an Interview</h2>
+
+      <form className="flex flex-col gap-4 form">
+        <Input className="input" name="q" defaultValue={q} placeholder="Search roles and questions" />
+
+        <div className="flex flex-row flex-wrap gap-4">
+          <Input className="input flex-1 min-w-48" name="role" defaultValue={role} placeholder="Role" />
+          <Input
+            className="input flex-1 min-w-48"
+            name="techstack"
+            defaultValue={techstack}
+            placeholder="Tech stack, e.g. react,node"
+          />
+        </div>
+
+        <div className="flex flex-row flex-wrap items-center gap-4">
+          <select name="level" defaultValue={level} className={selectClassName}>
+            <option value="">Any level</option>
+            {interviewLevels.map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+          <select name="type" defaultValue={type} className={selectClassName}>
+            <option value="">Any type</option>
+            {interviewTypes.map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+          <select name="sort" defaultValue={sort} className={selectClassName}>
+            <option value="recent">Newest first</option>
+            <option value="popular">Most attempted</option>
+          </select>
+
+          <Button type="submit" className="btn-primary">Search</Button>
+          {hasFilters && (
+            <Button asChild className="btn-secondary">
+              <Link href="/search">Clear</Link>
+            </Button>
+          )}
+        </div>
+      </form>
+
+      {isPartial && (
+        <p className="text-sm text-light-400">
+          Role and keyword matches come from the {sort === "popular" ? "200 most attempted" : "200 newest"} interviews that fit the other filters. Pick a level, type or tech stack to search further.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {interviews.length > 0 ? (
+          interviews.map((interview) => (
+            <InterviewCard
+              key={interview.id}
+              {...interview}
+              userId={user.id}
+              feedback={feedbackByInterviewId[interview.id]}
+            />
+          ))
+        ) : (
+          <p className="text-gray-500">No interviews match your search.</p>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default Page;
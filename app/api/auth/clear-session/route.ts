@@ -0,0 +1,12 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+// Pages can't modify cookies while rendering, so requireUser() sends expired
+// or revoked sessions here to drop the cookie before going to sign in.
+export async function GET(request: Request) {
+  const cookieStore = await cookies();
+
+  cookieStore.delete('session');
+
+  return NextResponse.redirect(new URL('/sign-in', request.url));
+}
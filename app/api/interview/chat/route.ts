@@ -0,0 +1,96 @@
+import { streamText } from "ai";
+import { getModel } from "@/lib/llm";
+import { CHAT_MESSAGE_LIMIT, buildChatInterviewerPrompt, chatDocId, parseInterviewerReply } from "@/lib/chat";
+import { getCurrentUser } from "@/lib/actions/auth.action";
+import { getInterviewById } from "@/lib/actions/general.action";
+import { chatInterviewRequestSchema, interviewer } from "@/constants";
+import { db } from "@/firebase/admin";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const parsed = chatInterviewRequestSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return Response.json(
+      { success: false, error: "Invalid request body", issues: parsed.error.flatten().fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  const { interviewId, attemptKey, message } = parsed.data;
+
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return Response.json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const interview = await getInterviewById(interviewId);
+
+  if (!interview || !interview.finalized) {
+    return Response.json({ success: false, error: "Interview not found" }, { status: 404 });
+  }
+
+  const chatRef = db.collection("chats").doc(chatDocId(user.id, attemptKey));
+  const chatDoc = await chatRef.get();
+
+  if (chatDoc.exists && chatDoc.data()?.interviewId !== interviewId) {
+    return Response.json({ success: false, error: "Chat not found" }, { status: 404 });
+  }
+
+  const now = new Date().toISOString();
+  const history: TranscriptTurn[] = chatDoc.data()?.messages ?? [
+    { role: "assistant", content: interviewer.firstMessage ?? "", timestamp: now },
+  ];
+
+  // room for the answer and the reply to it
+  if (history.length + 2 > CHAT_MESSAGE_LIMIT) {
+    return Response.json(
+      { success: false, error: "This chat has reached its message limit", limitReached: true },
+      { status: 409 }
+    );
+  }
+
+  const answer: TranscriptTurn = { role: "user", content: message, timestamp: now };
+
+  // the greeting is part of the system prompt, the model sees the conversation from the candidate's first reply
+  const conversation = [...history, answer]
+    .slice(history[0]?.role === "assistant" ? 1 : 0)
+    .map(({ role, content }) => ({ role: role === "user" ? ("user" as const) : ("assistant" as const), content }));
+
+  const result = streamText({
+    model: getModel(),
+    system: buildChatInterviewerPrompt(interview.questions.map((question) => question.text)),
+    messages: conversation,
+    // the answer is only stored together with its reply, so a failed reply can
+    // be sent again, and the stream only closes once both are written
+    onFinish: async ({ text }) => {
+      const reply = parseInterviewerReply(text).content;
+
+      if (!reply) return;
+
+      // another message sent in the meantime was answered from the same history,
+      // only the first to finish is kept rather than one overwriting the other
+      const saved = await db.runTransaction(async (transaction) => {
+        const currentDoc = await transaction.get(chatRef);
+        const storedLength = chatDoc.exists ? history.length : 0;
+
+        if ((currentDoc.data()?.messages?.length ?? 0) !== storedLength) return false;
+
+        transaction.set(chatRef, {
+          interviewId,
+          userId: user.id,
+          messages: [...history, answer, { role: "assistant", content: reply, timestamp: new Date().toISOString() }],
+          updatedAt: new Date().toISOString(),
+        });
+
+        return true;
+      });
+
+      if (!saved) console.error("Chat changed while replying, the reply was not saved:", chatRef.id);
+    },
+    onError: ({ error }) => console.error("Error streaming interviewer reply:", error),
+  });
+
+  return result.toTextStreamResponse();
+}
@@ -1,39 +1,46 @@
-
-import { generateText } from "ai";
-import { google } from "@ai-sdk/google";
+import { verifyGenerateRequest } from "@/lib/generate-token";
+import { generateInterview } from "@/lib/interview";
+import { generateInterviewRequestSchema } from "@/constants";
 import { db } from "@/firebase/admin";
 
 export async function POST(request: Request) {
-  const { type, role, level, techstack, amount, userid } = await request.json();
+  const body = await request.json().catch(() => null);
+
+  // authenticated before the body is validated, so only callers holding a
+  // token or the shared secret learn what a valid request looks like
+  const claimedUserId = typeof body?.userid === "string" ? body.userid.trim() : "";
+
+  if (!verifyGenerateRequest(request, claimedUserId)) {
+    return Response.json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = generateInterviewRequestSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return Response.json(
+      { success: false, error: "Invalid request body", issues: parsed.error.flatten().fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  // the Vapi workflow sends every gathered value as a string, amount is coerced by the schema
+  const { type, role, level, techstack, amount, userid } = parsed.data;
 
   try {
-    const { text: questions } = await generateText({
-      model: google("gemini-2.0-flash-001"),
-      prompt: `Prepare questions for a job interview.
-        The job role is ${role}.
-        The job experience level is ${level}.
-        The tech stack used in the job is: ${techstack}.
-        The focus between behavioural and technical questions should lean towards: ${type}.
-        The amount of questions required is: ${amount}.
-        Please return only the questions, without any additional text.
-        The questions are going to be read by a voice assistant so do not use "/" or "*" or any other special characters which might break the voice assistant.
-        Return the questions formatted like this:
-        ["Question 1", "Question 2", "Question 3"]
-    `,
-    });
+    const user = await db.collection("users").doc(userid).get();
+
+    if (!user.exists) {
+      return Response.json({ success: false, error: "Unknown user" }, { status: 403 });
+    }
 
-    const interview = {
-      role: role,
-      type: type,
-      level: level,
+    await generateInterview({
+      type,
+      role,
+      level,
       techstack: techstack.split(","),
-      questions: JSON.parse(questions),
+      amount,
       userId: userid,
-      finalized: true,
-      createdAt: new Date().toISOString(),
-    };
-
-    await db.collection("interviews").add(interview);
+    });
 
     return Response.json({ success: true }, { status: 200 });
   } catch (error) {
@@ -44,4 +51,4 @@ export async function POST(request: Request) {
 
 export async function GET() {
   return Response.json({ success: true, data: "Thank you!" }, { status: 200 });
-}
\ No newline at end of file
+}
@@ -2,40 +2,102 @@
 
 import { cn } from '@/lib/utils';
 import Image from 'next/image'
+import { toast } from 'sonner';
 import { useRouter } from 'next/navigation';
-import { useEffect, useState } from 'react';
+import { useEffect, useReducer, useRef, useState } from 'react';
 import { vapi } from '@/lib/vapi.sdk';
 import { generator, interviewer } from '@/constants';
-import { createFeedback } from '@/lib/actions/general.action';
-
-enum CallStatus{
-    INACTIVE = 'INACTIVE',
-    CONNECTING = 'CONNECTING',
-    ACTIVE = 'ACTIVE',
-    FINISHED = 'FINISHED',
-}
+import { createFeedback, discardSessionDraft, saveSessionDraft, submitCodingSolution } from '@/lib/actions/general.action';
+import { getGenerateToken } from '@/lib/actions/auth.action';
+import { assessTranscript, findCurrentQuestion } from '@/lib/transcript';
+import { callReducer, describeCallError, initialCallState, type CallStatus } from '@/lib/call-state';
+import { buildResumeContext, clearLocalDraft, loadLocalDraft, pickLatestDraft, saveLocalDraft } from '@/lib/drafts';
+import { formatQuestionList } from '@/lib/chat';
+import { describeRunResult, formatSubmission } from '@/lib/coding';
+import { describeDiagram, emptyDiagram, hasDiagram } from '@/lib/whiteboard';
+import TranscriptPanel from './TranscriptPanel';
+import CodingPanel from './CodingPanel';
+import Whiteboard from './Whiteboard';
+import { Button } from './ui/button';
 
 interface SavedMessage{
     role: 'user' | 'system' | 'assistant';
     content: string;
+    timestamp: string;
 }
 
-const Agent = ({userName, userId, type, interviewId, questions }: AgentProps) => {
+// the server copy of an unfinished attempt is refreshed every few turns
+const DRAFT_SAVE_INTERVAL = 4;
+
+const statusLabels: Partial<Record<CallStatus, string>> = {
+    connecting: 'Connecting to the interviewer...',
+    paused: 'Interview paused, your microphone is muted.',
+    reconnecting: 'Connection lost, reconnecting...',
+};
+
+const Agent = ({userName, userId, userAvatar, preferences, draft, type, interviewId, questions, codingChallenge, showWhiteboard }: AgentProps) => {
     const router = useRouter();
     const [isSpeaking, setIsSpeaking] = useState(false);
-    const [callStatus, setCallStatus] = useState<CallStatus>(CallStatus.INACTIVE);
+    const [callState, dispatch] = useReducer(callReducer, initialCallState);
     const [messages, setMessages] = useState<SavedMessage[]>([]);
+    const [partialMessage, setPartialMessage] = useState<Omit<SavedMessage, 'timestamp'> | null>(null);
+    const [startedAt, setStartedAt] = useState<string | null>(null);
+    const [recoverableDraft, setRecoverableDraft] = useState<SessionDraft | null>(null);
+    const [shortAttempt, setShortAttempt] = useState<TranscriptAssessment | null>(null);
+    const [diagram, setDiagram] = useState<WhiteboardDiagram>(emptyDiagram);
+    const endReasonRef = useRef<SessionEndReason | null>(null);
+    // Vapi listeners are registered once, so they read the latest values through refs
+    const statusRef = useRef(callState.status);
+    const messagesRef = useRef(messages);
+    // read by the autosave rather than triggering it, dragging a box would otherwise save on every frame
+    const diagramRef = useRef(diagram);
+    const startCallRef = useRef<(resumeFrom?: SavedMessage[]) => Promise<void>>(async () => {});
+    const feedbackRequestedRef = useRef(false);
+    // one key per attempt, so ending the same call twice can't create two feedback records
+    const attemptKeyRef = useRef<string | null>(null);
+
+    const canRecover = type === 'interview' && !!interviewId;
+
+    useEffect(() => {
+        statusRef.current = callState.status;
+        messagesRef.current = messages;
+        diagramRef.current = diagram;
+        startCallRef.current = startCall;
+    });
+
+    // an attempt interrupted by a dropped call or a closed tab can be picked up again
+    useEffect(() => {
+        if (canRecover) setRecoverableDraft(pickLatestDraft(draft, loadLocalDraft(interviewId)));
+    }, [canRecover, draft, interviewId]);
 
     useEffect(() => {
-        const onCallStart = () => setCallStatus(CallStatus.ACTIVE);
-        const onCallEnd = () => setCallStatus(CallStatus.FINISHED);
+        const onCallStart = () => {
+            // a reconnected call keeps the time the attempt originally started
+            setStartedAt((current) => current ?? new Date().toISOString());
+            dispatch({ type: 'CONNECTED' });
+        };
+        const onCallEnd = () => {
+            // a dropped call ends too, that case is already being handled
+            if (statusRef.current === 'reconnecting' || statusRef.current === 'errored') return;
+
+            // if the candidate didn't hang up, the interviewer did
+            endReasonRef.current ??= 'assistant-ended';
+            dispatch({ type: 'END' });
+        };
 
         const onMessage = (message: Message) => {
-            if(message.type === 'transcript' && message.transcriptType === 'final' ){
-                const newMessage = { role: message.role, content:message.transcript}
+            if(message.type !== 'transcript') return;
 
-                setMessages((prev) => [...prev, newMessage]);
+            // partials are rewritten as the speaker goes on, the final replaces them
+            if(message.transcriptType === 'partial'){
+                setPartialMessage({ role: message.role, content: message.transcript });
+                return;
             }
+
+            const newMessage = { role: message.role, content:message.transcript, timestamp: new Date().toISOString()}
+
+            setPartialMessage((partial) => (partial?.role === message.role ? null : partial));
+            setMessages((prev) => [...prev, newMessage]);
         };
 
         const onSpeechStart = () => setIsSpeaking(true);
@@ -43,8 +105,17 @@ const Agent = ({userName, userId, type, interviewId, questions }: AgentProps) =>
 
         const onError = (error: Error) => {
            //ignore meeting due to ejection(not critical)
-            if (!error.message?.includes('Meeting ended due to ejection')) {
-                console.log('Error', error);
+            if (error?.message?.includes('Meeting ended due to ejection')) return;
+
+            console.log('Error', error);
+
+            const status = statusRef.current;
+            const message = describeCallError(error);
+
+            if (status === 'active' || status === 'paused') {
+                dispatch({ type: 'DROPPED', error: message });
+            } else if (status === 'connecting' || status === 'reconnecting') {
+                dispatch({ type: 'FAILED', error: message });
             }
         };
 
@@ -65,77 +136,258 @@ const Agent = ({userName, userId, type, interviewId, questions }: AgentProps) =>
         }
     }, [])
 
+    // keep a copy of the attempt so far, locally on every turn and on the server now and then
+    useEffect(() => {
+        if (!canRecover || messages.length === 0 || callState.status === 'finished') return;
+
+        const current = { interviewId, transcript: messages, startedAt, diagram: showWhiteboard ? diagramRef.current : null };
+
+        saveLocalDraft({ ...current, updatedAt: new Date().toISOString() });
+
+        if (messages.length % DRAFT_SAVE_INTERVAL === 0 || ['paused', 'reconnecting', 'errored'].includes(callState.status)) {
+            saveSessionDraft(current);
+        }
+    }, [canRecover, interviewId, messages, startedAt, callState.status, showWhiteboard]);
+
     const handleGenerateFeedback = async (messages: SavedMessage[]) => {
         console.log('Generate feedback here.');
 
-        const {success, feedbackId: id} = await createFeedback({
+        attemptKeyRef.current ??= crypto.randomUUID();
+
+        const {success, feedbackId: id, status} = await createFeedback({
             interviewId: interviewId!,
             userId: userId!,
-            transcript: messages
+            transcript: messages,
+            idempotencyKey: attemptKeyRef.current,
+            diagram: showWhiteboard ? diagram : null,
+            startedAt: startedAt ?? undefined,
+            endedAt: new Date().toISOString(),
+            endReason: endReasonRef.current ?? 'candidate-ended',
         }) 
 
         if(success && id){
-            router.push(`/interview/${interviewId}/feedback`)
+            // an incomplete attempt stays saved so it can be continued later,
+            // anything else is scored on the server from the saved session
+            if(status !== 'incomplete') clearLocalDraft(interviewId!);
+            router.push(`/interview/${interviewId}/feedback?feedbackId=${id}`)
         } else {
             console.log('Error saving feedback');
+            // the transcript stays recoverable so the attempt can be scored later
+            await saveSessionDraft({ interviewId: interviewId!, transcript: messages, startedAt });
             router.push('/');
         }
     }
 
     useEffect(() =>{
-        if(callStatus === CallStatus.FINISHED){
+        if(callState.status === 'finished' && !feedbackRequestedRef.current){
+            feedbackRequestedRef.current = true;
+
             if(type === 'generate'){
                 router.push('/')
+                return;
+            }
+
+            // let the candidate carry on rather than getting a score for a call that barely happened
+            const assessment = assessTranscript(messages, questions ?? []);
+
+            if(!assessment.isComplete){
+                setShortAttempt(assessment);
             } else {
                 handleGenerateFeedback(messages);
             }
         }
 
-    }, [messages, callStatus, type, userId]);
-
-const handleCall = async () => {
-  setCallStatus(CallStatus.CONNECTING);
+    }, [messages, callState.status, type, userId]);
 
+const startCall = async (resumeFrom: SavedMessage[] = []) => {
   try {
     if (type === "generate") {
+      const token = await getGenerateToken();
+
       await vapi.start(
         undefined,
         {
           variableValues: {
             username: userName,
             userid: userId,
+            token,
+            // saved preferences pre-fill the answers the generator would otherwise ask for
+            role: preferences?.targetRole || undefined,
+            level: preferences?.experienceLevel,
+            techstack: preferences?.preferredTechStack?.join(","),
+            amount: preferences?.defaultQuestionCount?.toString(),
           },
         } as any,
         undefined,
         generator
       );
     } else {
-      let formattedQuestions = "";
-      if (questions) {
-        formattedQuestions = questions
-          .map((question) => `- ${question}`)
-          .join("\n");
-      }
-
-      await vapi.start(interviewer, {
+      const assistant = resumeFrom.length > 0
+        ? {
+            ...interviewer,
+            firstMessage: "Sorry about that, we got disconnected. Let's pick up where we left off.",
+            model: {
+              ...interviewer.model,
+              messages: [
+                ...(interviewer.model?.messages ?? []),
+                { role: "system", content: buildResumeContext(resumeFrom) },
+              ],
+            },
+          }
+        : interviewer;
+
+      await vapi.start(assistant as typeof interviewer, {
         variableValues: {
-          questions: formattedQuestions,
+          questions: formatQuestionList([
+            ...(questions ?? []),
+            ...(showWhiteboard ? ['Ask the candidate to sketch their design on the whiteboard on their screen as they talk. They will share it with you as it takes shape.'] : []),
+            ...(codingChallenge ? [`Finally, ask the candidate to solve the coding challenge "${codingChallenge.title}" in the editor on their screen and to submit it when they are done.`] : []),
+          ]),
+        },
+        voice: {
+          ...interviewer.voice,
+          voiceId: preferences?.interviewerVoice ?? "ryan",
+          speed: preferences?.speakingSpeed ?? 0.9,
         },
       } as any);
     }
   } catch (error) {
     console.error("Error starting call:", error);
-    setCallStatus(CallStatus.INACTIVE);
+    dispatch({ type: 'FAILED', error: describeCallError(error) });
   }
 };
+
+    // retries back off a little more each time
+    useEffect(() => {
+        if (callState.status !== 'reconnecting') return;
+
+        const timeout = setTimeout(() => startCallRef.current(messagesRef.current), 1500 * callState.reconnectAttempts);
+
+        return () => clearTimeout(timeout);
+    }, [callState.status, callState.reconnectAttempts]);
+
+    const handleCall = async () => {
+        endReasonRef.current = null;
+        dispatch({ type: 'START' });
+
+        await startCall(messages);
+    }
+
+    const handleResumeDraft = async (saved: SessionDraft) => {
+        setRecoverableDraft(null);
+        setMessages(saved.transcript);
+        setStartedAt(saved.startedAt);
+        setDiagram(saved.diagram ?? emptyDiagram);
+        endReasonRef.current = null;
+        dispatch({ type: 'START' });
+
+        await startCall(saved.transcript);
+    }
+
+    const handleScoreDraft = (saved: SessionDraft) => {
+        setRecoverableDraft(null);
+        setMessages(saved.transcript);
+        setStartedAt(saved.startedAt);
+        setDiagram(saved.diagram ?? emptyDiagram);
+        endReasonRef.current = 'error';
+        dispatch({ type: 'END' });
+    }
+
+    const handleDiscardDraft = async () => {
+        setRecoverableDraft(null);
+        setMessages([]);
+        setStartedAt(null);
+        setDiagram(emptyDiagram);
+        dispatch({ type: 'RESET' });
+
+        clearLocalDraft(interviewId!);
+        await discardSessionDraft(interviewId!);
+    }
+
+    const handleContinue = async () => {
+        setShortAttempt(null);
+        feedbackRequestedRef.current = false;
+        endReasonRef.current = null;
+        dispatch({ type: 'RESET' });
+        dispatch({ type: 'START' });
+
+        await startCall(messages);
+    }
+
+    const handleSaveIncomplete = async () => {
+        setShortAttempt(null);
+
+        await handleGenerateFeedback(messages);
+    }
+
+    const handleCodeSubmit = async (code: string) => {
+        if(!codingChallenge || !interviewId) return null;
+
+        const { success, result, message } = await submitCodingSolution({ interviewId, code });
+
+        if(!success || !result) {
+            toast.error(message ?? 'Could not run the solution, please try again');
+            return null;
+        }
+
+        setMessages((prev) => [
+            ...prev,
+            { role: 'user', content: formatSubmission(codingChallenge, code), timestamp: new Date().toISOString() },
+        ]);
+
+        // the interviewer can't see the editor, so it's told about the submission
+        vapi.send({
+            type: 'add-message',
+            message: {
+                role: 'system',
+                content: `The candidate submitted their solution to the coding challenge. ${describeRunResult(result, codingChallenge.testCount)} Ask them to briefly walk you through their approach.`,
+            },
+        });
+
+        return result;
+    }
+
+    const handleShareDiagram = () => {
+        vapi.send({
+            type: 'add-message',
+            message: {
+                role: 'system',
+                content: `The candidate shared their whiteboard, it currently shows:\n${describeDiagram(diagram)}\nReact to the design briefly and probe one part of it, such as how it scales or what happens when a component fails.`,
+            },
+        });
+    }
+
+    const handlePause = () => {
+        vapi.setMuted(true);
+        vapi.send({ type: 'control', control: 'mute-assistant' });
+        dispatch({ type: 'PAUSE' });
+    }
+
+    const handleResume = () => {
+        vapi.setMuted(false);
+        vapi.send({ type: 'control', control: 'unmute-assistant' });
+        vapi.send({
+            type: 'add-message',
+            message: { role: 'system', content: 'The candidate paused the interview for a moment and is back now. Briefly check they are ready, then carry on.' },
+        });
+        dispatch({ type: 'RESUME' });
+    }
+
     const handleDisconnect = async () => {
-        setCallStatus(CallStatus.FINISHED);
+        endReasonRef.current = 'candidate-ended';
+        dispatch({ type: 'END' });
 
         vapi.stop();
     }
 
-    const latestMessage = messages[messages.length - 1]?.content;
-    const isCallInactiveOrFinished = callStatus === CallStatus.INACTIVE || callStatus === CallStatus.FINISHED;
+    const { status } = callState;
+    const currentQuestion = type === 'interview' && questions?.length ? findCurrentQuestion(questions, messages) : -1;
+    const isCallRunning = status === 'active' || status === 'paused';
+    // a failed interview can be resumed or scored from what was said so far
+    const failedAttempt: SessionDraft | null = status === 'errored' && canRecover && messages.length > 0
+        ? { interviewId, transcript: messages, startedAt, diagram, updatedAt: new Date().toISOString() }
+        : null;
+    const pendingDraft = status === 'idle' ? recoverableDraft : failedAttempt;
 
   return (
     <>
@@ -149,40 +401,91 @@ const handleCall = async () => {
         </div>
         <div className = "card-border">
             <div className = "card-content">
-                <Image src = "/user-icon.png" alt = "user pfp" width = {540} height = {540} className = "rounded-full object-cover size-[120px]"/>
+                <Image src = {userAvatar || "/user-icon.png"} alt = "user pfp" width = {540} height = {540} unoptimized = {!!userAvatar} className = "rounded-full object-cover size-[120px]"/>
                 <h3>{userName}</h3>
             </div>
         </div>
     </div>
+    {currentQuestion >= 0 && questions && (
+        <p className="text-center text-light-400">
+            Question {currentQuestion + 1} of {questions.length}
+        </p>
+    )}
+    {statusLabels[status] && (
+        <p className="text-center text-light-400">{statusLabels[status]}</p>
+    )}
+    {callState.error && status === 'errored' && (
+        <p className="text-center text-destructive-100">{callState.error}</p>
+    )}
+    {type === 'interview' && showWhiteboard && (
+        <div className="flex flex-col gap-3 w-full">
+            <Whiteboard diagram={diagram} onChange={setDiagram} />
+            <Button
+                className="btn-secondary self-start"
+                onClick={handleShareDiagram}
+                disabled={status !== 'active' || !hasDiagram(diagram)}
+            >
+                Show Diagram to Interviewer
+            </Button>
+        </div>
+    )}
+    {type === 'interview' && codingChallenge && (
+        <CodingPanel challenge={codingChallenge} canSubmit={status === 'active'} onSubmit={handleCodeSubmit} />
+    )}
     {/* enables transcript of the conversation */}
-        {messages.length > 0 && (
-            <div className  = "transcript-border">
-                <div className  = "transcript">
-                    <p key = {latestMessage} className={cn('transition-opacity duration-500 opacity-0', 'animate-fadeIn opacity-100')}>
-                        {latestMessage}
-                    </p>
+        <TranscriptPanel turns={messages} partial={partialMessage} startedAt={startedAt} />
 
+        {shortAttempt ? (
+            <div className="flex flex-col items-center gap-4 rounded-2xl bg-dark-200 px-6 py-5 w-full">
+                <p className="text-center">This attempt is too short to score yet:</p>
+                <ul className="text-light-400">
+                    {shortAttempt.reasons.map((reason, index) => (
+                        <li key={index}>{reason}</li>
+                    ))}
+                </ul>
+                <div className="flex flex-row flex-wrap justify-center gap-4">
+                    <Button className="btn-primary" onClick={handleContinue}>Continue Interview</Button>
+                    <Button className="btn-secondary" onClick={handleSaveIncomplete}>Save as Incomplete</Button>
                 </div>
-
             </div>
-        )}
-
-        <div className = "w-full flex justify-center">
-                { callStatus !== "ACTIVE" ? (
-                    <button className="relative btn-call" onClick={handleCall}>
+        ) : pendingDraft ? (
+            <div className="flex flex-col items-center gap-4 rounded-2xl bg-dark-200 px-6 py-5 w-full">
+                <p className="text-center">
+                    {status === 'errored'
+                        ? 'The call could not be recovered. What would you like to do with your answers so far?'
+                        : `You have an unfinished attempt with ${pendingDraft.transcript.length} messages. Pick up where you left off?`}
+                </p>
+                <div className="flex flex-row flex-wrap justify-center gap-4">
+                    <Button className="btn-primary" onClick={() => handleResumeDraft(pendingDraft)}>Resume</Button>
+                    <Button className="btn-secondary" onClick={() => handleScoreDraft(pendingDraft)}>Score What I Have</Button>
+                    <Button className="btn-secondary" onClick={handleDiscardDraft}>Discard</Button>
+                </div>
+            </div>
+        ) : (
+        <div className = "w-full flex justify-center gap-4">
+                { !isCallRunning ? (
+                    <button className="relative btn-call" onClick={handleCall} disabled={status === 'connecting' || status === 'reconnecting' || status === 'finished'}>
                         <span 
-                                 className = {cn('absolute animate-ping rounded-full opacity-75', callStatus !== 'CONNECTING' && 'hidden' )}
+                                 className = {cn('absolute animate-ping rounded-full opacity-75', status !== 'connecting' && status !== 'reconnecting' && 'hidden' )}
                              />
                         <span>
-                        {isCallInactiveOrFinished ? 'Call' : '. . .'}
+                        {status === 'idle' ? 'Call' : status === 'errored' ? 'Try Again' : '. . .'}
                         </span>
                     </button>
                 ) : (
-                    <button className = "btn-disconnect" onClick={handleDisconnect}>
-                        End
-                    </button>
+                    <>
+                        {type === 'interview' && (
+                            <button className = "btn-call" onClick={status === 'paused' ? handleResume : handlePause}>
+                                {status === 'paused' ? 'Resume' : 'Pause'}
+                            </button>
+                        )}
+                        <button className = "btn-disconnect" onClick={handleDisconnect}>
+                            End
+                        </button>
+                    </>
                 )}
         </div>
+        )}
     </>
     
   )
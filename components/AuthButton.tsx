@@ -1,53 +1,51 @@
 'use client';
 
-import { usePathname, useRouter } from 'next/navigation';
-import { signOut } from 'firebase/auth';
+import { useRouter } from 'next/navigation';
+import { signOut as signOutClient } from 'firebase/auth';
+import { toast } from 'sonner';
 import { auth } from '@/firebase/client';
+import { signOut } from '@/lib/actions/auth.action';
 import { Button } from './ui/button';
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 
 export default function AuthButton() {
   const router = useRouter();
-  const pathname = usePathname();
-  const [isLoading, setIsLoading] = useState(true);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
 
-  useEffect(() => {
-    // Check authentication status
-    const unsubscribe = auth.onAuthStateChanged((user) => {
-      const isUserAuthenticated = !!user;
-      setIsAuthenticated(isUserAuthenticated);
-      setIsLoading(false);
-      
-      // If not authenticated redirect to sign-in
-      if (!isUserAuthenticated && !window.location.pathname.includes('sign-in')) {
-        router.push('/sign-in');
-      }
-    });
+  const handleSignOut = async (allDevices: boolean) => {
+    try {
+      const result = await signOut({ allDevices });
+      await signOutClient(auth);
 
-    return () => unsubscribe();
-  }, [router]);
+      if (!result.success) toast.error(result.message);
 
-  const handleSignOut = async () => {
-    try {
-      await signOut(auth);
       router.push('/sign-in');
+      router.refresh();
     } catch (error) {
       console.error('Error signing out:', error);
     }
   };
 
- 
-  if (isLoading) return null;
-  
-  // Only show log out button on the homepage when authenticated
-  return isAuthenticated && pathname === '/' ? (
-    <Button 
-      variant="outline" 
-      className="bg-black text-white hover:bg-gray-900 hover:text-white"
-      onClick={handleSignOut}
-    >
-      Log Out
-    </Button>
-  ) : null;
-}
\ No newline at end of file
+  // Rendered in the (root) layout, which is only reachable with a valid session
+  return (
+    <div className="relative">
+      <Button 
+        variant="outline" 
+        className="bg-black text-white hover:bg-gray-900 hover:text-white"
+        onClick={() => setIsMenuOpen((open) => !open)}
+      >
+        Log Out
+      </Button>
+      {isMenuOpen && (
+        <div className="absolute right-0 mt-2 z-20 flex flex-col gap-1 rounded-lg bg-dark-200 p-2 min-w-56 shadow-lg">
+          <Button variant="ghost" className="justify-start" onClick={() => handleSignOut(false)}>
+            Log out of this device
+          </Button>
+          <Button variant="ghost" className="justify-start" onClick={() => handleSignOut(true)}>
+            Log out of all devices
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
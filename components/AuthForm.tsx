@@ -3,7 +3,7 @@
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form"
 import { z } from "zod"
-import { useRef, useEffect } from "react"
+import { useRef, useEffect, useState } from "react"
 
 import { Button } from "@/components/ui/button"
 import { Form } from "@/components/ui/form"
@@ -13,22 +13,27 @@ import Link from "next/link"
 import { toast } from "sonner"
 import FormField from "@/components/FormField"
 import { useRouter } from "next/navigation"
-import { createUserWithEmailAndPassword, signInWithEmailAndPassword } from "firebase/auth"
+import {
+  AuthProvider,
+  createUserWithEmailAndPassword,
+  getAdditionalUserInfo,
+  GithubAuthProvider,
+  GoogleAuthProvider,
+  sendEmailVerification,
+  signInWithEmailAndPassword,
+  signInWithPopup,
+  signOut,
+  type User as FirebaseUser,
+} from "firebase/auth"
 import { auth } from "@/firebase/client"
 import { signIn, signUp } from "@/lib/actions/auth.action"
+import { isAllowedEmailDomain } from "@/lib/email"
 
 const signUpSchema = z.object({
   name: z.string().min(3, { message: "Name must have 3 or more characters" }),
   email: z.string()
     .email({ message: "Invalid Email format" })
-    .refine(email => {
-      const parts = email.split('@');
-      if (parts.length !== 2) return false;
-      const domain = parts[1];
-      if (!domain) return false;
-      const validDomains = ['gmail.com', 'outlook.com', 'hotmail.com', 'yahoo.com'];
-      return validDomains.some(validDomain => domain.endsWith(validDomain));
-    }, { message: "Invalid Email Format" }),
+    .refine(isAllowedEmailDomain, { message: "Sign ups from this email domain are not allowed" }),
   password: z.string().min(8, { message: "Password must have 8 or more characters" }).refine((val) => !/\s/.test(val), { message: "Password must not contain spaces" }),
   confirmPassword: z.string().min(8, { message: "Password must have 8 or more characters" }),
 })
@@ -36,21 +41,19 @@ const signUpSchema = z.object({
 const signInSchema = z.object({
   name: z.string().optional(),
   email: z.string()
-    .email({ message: "Invalid Email format" })
-    .refine(email => {
-      const parts = email.split('@');
-      if (parts.length !== 2) return false;
-      const domain = parts[1];
-      if (!domain) return false;
-      const validDomains = ['gmail.com', 'outlook.com', 'hotmail.com', 'yahoo.com'];
-      return validDomains.some(validDomain => domain.endsWith(validDomain));
-    }, { message: "Invalid Email Format" }),
+    .email({ message: "Invalid Email format" }),
   password: z.string().min(8, { message: "Password must have 8 or more characters" }).refine((val) => !/\s/.test(val), { message: "Password must not contain spaces" }),
 })
 
+const providers = [
+  { name: "Google", create: () => new GoogleAuthProvider() },
+  { name: "GitHub", create: () => new GithubAuthProvider() },
+]
+
 const AuthForm = ({ type }: { type: FormType }) => {
   const router = useRouter()
   const isSignIn = type === 'sign-in'
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null)
 
   const formSchema = isSignIn ? signInSchema : signUpSchema
 
@@ -76,7 +79,7 @@ const AuthForm = ({ type }: { type: FormType }) => {
         let friendlyMessage = error.message;
         
         if (field === 'email') {
-          friendlyMessage = 'Invalid Email Format';
+          friendlyMessage = error.message;
         } else if (field === 'name') {
           friendlyMessage = 'Name must be at least 3 characters';
         } else if (field === 'password') {
@@ -93,6 +96,20 @@ const AuthForm = ({ type }: { type: FormType }) => {
     prevErrorsRef.current = { ...errors };
   }, [errors]);
 
+  // Also the way in for accounts created before verification was required:
+  // they get a link the first time they sign in instead of being turned away.
+  async function requireVerification(user: FirebaseUser) {
+    try {
+      await sendEmailVerification(user)
+    } catch (error) {
+      // usually rate limited because a link was sent moments ago, that one still works
+      console.error('Error sending verification email', error)
+    }
+
+    await signOut(auth)
+    setUnverifiedEmail(user.email)
+  }
+
   async function onSubmit(values: z.infer<typeof formSchema>) {
     try {
       if (type === 'sign-up') {
@@ -106,10 +123,8 @@ const AuthForm = ({ type }: { type: FormType }) => {
         const userCredentials = await createUserWithEmailAndPassword(auth, email, password)
 
         const result = await signUp({
-          uid: userCredentials.user.uid,
+          idToken: await userCredentials.user.getIdToken(),
           name: name!,
-          email,
-          password,
         })
 
         if (!result?.success) {
@@ -117,20 +132,40 @@ const AuthForm = ({ type }: { type: FormType }) => {
           return
         }
 
-        toast.success('Account created successfully!')
+        await sendEmailVerification(userCredentials.user)
+        await signOut(auth)
+
+        toast.success('Account created! Check your inbox to verify your email')
         router.push('/sign-in')
       } else {
         const { email, password } = values
 
         const userCredential = await signInWithEmailAndPassword(auth, email, password)
 
+        if (!userCredential.user.emailVerified) {
+          await requireVerification(userCredential.user)
+          return
+        }
+
         const idToken = await userCredential.user.getIdToken()
         if (!idToken) {
           toast.error('Sign in Failed')
           return
         }
 
-        await signIn({ email, idToken })
+        const result = await signIn({ email, idToken })
+
+        if (result?.needsVerification) {
+          await requireVerification(userCredential.user)
+          return
+        }
+
+        if (!result?.success) {
+          toast.error(result?.message)
+          return
+        }
+
+        setUnverifiedEmail(null)
 
         toast.success('Logged In successfully!')
         router.push('/')
@@ -152,6 +187,54 @@ const AuthForm = ({ type }: { type: FormType }) => {
     }
   }
 
+  async function onProviderSignIn(createProvider: () => AuthProvider) {
+    try {
+      const credential = await signInWithPopup(auth, createProvider())
+      const { user } = credential
+
+      if (!user.email) {
+        await signOut(auth)
+        toast.error('Your account has no email address')
+        return
+      }
+
+      // the first federated sign in creates the users document
+      if (getAdditionalUserInfo(credential)?.isNewUser) {
+        const result = await signUp({
+          idToken: await user.getIdToken(),
+          name: user.displayName || user.email.split('@')[0],
+        })
+
+        if (!result?.success) {
+          await user.delete()
+          toast.error(result?.message)
+          return
+        }
+      }
+
+      const result = await signIn({ email: user.email, idToken: await user.getIdToken() })
+
+      if (!result?.success) {
+        await signOut(auth)
+        toast.error(result?.message)
+        return
+      }
+
+      toast.success('Logged In successfully!')
+      router.push('/')
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+
+      if (message.includes("auth/popup-closed-by-user")) return
+
+      if (message.includes("auth/account-exists-with-different-credential")) {
+        toast.error("An account already exists with this email, sign in with your password")
+      } else {
+        toast.error(`There was an error: ${message}`)
+      }
+    }
+  }
+
   return (
     <div className="card-border lg:min-w-[566px]">
       <div className="flex flex-col gap-6 card py-14 px-10">
@@ -165,6 +248,16 @@ const AuthForm = ({ type }: { type: FormType }) => {
         </div>
         <h3 className="text-center">Practice mock interviews with AI</h3>
 
+        {isSignIn && unverifiedEmail && (
+          <div className="flex flex-col gap-2 rounded-2xl bg-dark-200 px-6 py-5">
+            <p className="font-bold">Verify your email to continue</p>
+            <p className="text-sm text-light-400">
+              We sent a verification link to {unverifiedEmail}. Open it, then sign in again.
+              Signing in again also sends a new link if this one has expired.
+            </p>
+          </div>
+        )}
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="w-full space-y-6 mt-4 form">
             {!isSignIn && (
@@ -194,12 +287,34 @@ const AuthForm = ({ type }: { type: FormType }) => {
               />
             )}
 
+            {isSignIn && (
+              <Link href="/forgot-password" className="block text-right text-sm text-light-100">
+                Forgot password?
+              </Link>
+            )}
+
             <Button className="btn" type="submit">
               {isSignIn ? "Sign In" : "Create an Account"}
             </Button>
           </form>
         </Form>
 
+        <div className="flex flex-col gap-3">
+          <p className="text-center text-sm text-light-400">or continue with</p>
+          <div className="flex flex-row gap-3">
+            {providers.map((provider) => (
+              <Button
+                key={provider.name}
+                type="button"
+                className="btn-secondary flex-1"
+                onClick={() => onProviderSignIn(provider.create)}
+              >
+                {provider.name}
+              </Button>
+            ))}
+          </div>
+        </div>
+
         <p className="text-center">
           {isSignIn ? "No account yet?" : "Have an account already?"}
           <Link
@@ -0,0 +1,245 @@
+'use client'
+
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { interviewer } from '@/constants';
+import { createFeedback } from '@/lib/actions/general.action';
+import { CHAT_MESSAGE_LIMIT, parseInterviewerReply } from '@/lib/chat';
+import { assessTranscript, findCurrentQuestion } from '@/lib/transcript';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+
+interface ChatInterviewProps {
+  userId: string;
+  interviewId: string;
+  questions: string[];
+}
+
+// Reads the streamed reply chunk by chunk, reporting the text so far as it grows.
+async function streamReply(response: Response, onText: (text: string) => void): Promise<string> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    if (done) return text + decoder.decode();
+
+    text += decoder.decode(value, { stream: true });
+    onText(text);
+  }
+}
+
+const ChatInterview = ({ userId, interviewId, questions }: ChatInterviewProps) => {
+  const router = useRouter();
+  const [messages, setMessages] = useState<TranscriptTurn[]>([]);
+  const [startedAt, setStartedAt] = useState<string | null>(null);
+  const [draftAnswer, setDraftAnswer] = useState('');
+  const [reply, setReply] = useState<string | null>(null);
+  const [shortAttempt, setShortAttempt] = useState<TranscriptAssessment | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isAtLimit, setIsAtLimit] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // one key per attempt: it names the conversation stored on the server, and
+  // ending the same chat twice can't create two feedback records
+  const [attemptKey] = useState(() => crypto.randomUUID());
+
+  const isStarted = startedAt !== null;
+  const isWaiting = reply !== null;
+  const currentQuestion = findCurrentQuestion(questions, messages);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages.length, reply]);
+
+  const handleStart = () => {
+    const now = new Date().toISOString();
+
+    setStartedAt(now);
+    setMessages([{ role: 'assistant', content: interviewer.firstMessage ?? '', timestamp: now }]);
+  };
+
+  const saveAttempt = async (transcript: TranscriptTurn[], endReason: SessionEndReason) => {
+    setIsSaving(true);
+
+    // the server scores the conversation it stored under this key, not the transcript sent here
+    const { success, feedbackId } = await createFeedback({
+      interviewId,
+      userId,
+      transcript,
+      idempotencyKey: attemptKey,
+      startedAt: startedAt ?? undefined,
+      endedAt: new Date().toISOString(),
+      endReason,
+      mode: 'chat',
+    });
+
+    if (success && feedbackId) {
+      router.push(`/interview/${interviewId}/feedback?feedbackId=${feedbackId}`);
+      return;
+    }
+
+    setIsSaving(false);
+    toast.error('Could not save this attempt, please try again.');
+  };
+
+  const handleEnd = (transcript = messages, endReason: SessionEndReason = 'candidate-ended') => {
+    // same bar as a voice call, so a barely started chat isn't sent off for scoring by accident
+    const assessment = assessTranscript(transcript, questions);
+
+    if (!assessment.isComplete) {
+      setShortAttempt(assessment);
+      return;
+    }
+
+    saveAttempt(transcript, endReason);
+  };
+
+  const handleSend = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const answer = draftAnswer.trim();
+
+    if (!answer || isWaiting || isAtLimit) return;
+
+    const conversation: TranscriptTurn[] = [
+      ...messages,
+      { role: 'user', content: answer, timestamp: new Date().toISOString() },
+    ];
+
+    setMessages(conversation);
+    setDraftAnswer('');
+    setReply('');
+
+    try {
+      const response = await fetch('/api/interview/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ interviewId, attemptKey, message: answer }),
+      });
+
+      if (response.status === 409) {
+        setIsAtLimit(true);
+        setMessages(messages);
+        setDraftAnswer(answer);
+        return;
+      }
+
+      if (!response.ok || !response.body) throw new Error(`Chat request failed with ${response.status}`);
+
+      const text = await streamReply(response, (partial) => setReply(parseInterviewerReply(partial).content));
+      const { content, isFinished } = parseInterviewerReply(text);
+
+      if (!content) throw new Error('The interviewer sent an empty reply');
+
+      const withReply: TranscriptTurn[] = [
+        ...conversation,
+        { role: 'assistant', content, timestamp: new Date().toISOString() },
+      ];
+
+      setMessages(withReply);
+
+      if (withReply.length + 2 > CHAT_MESSAGE_LIMIT) setIsAtLimit(true);
+
+      if (isFinished) handleEnd(withReply, 'assistant-ended');
+    } catch (error) {
+      console.error('Error getting interviewer reply:', error);
+      toast.error("The interviewer couldn't reply, please send your answer again.");
+
+      // put the answer back so nothing typed is lost
+      setMessages(messages);
+      setDraftAnswer(answer);
+    } finally {
+      setReply(null);
+    }
+  };
+
+  if (!isStarted) {
+    return (
+      <div className="flex flex-col items-center gap-4 rounded-2xl bg-dark-200 px-6 py-8">
+        <p className="text-center text-light-400">
+          Type your answers instead of speaking. The interviewer asks the same questions and you get the same feedback.
+        </p>
+        <Button className="btn-primary" onClick={handleStart}>Start Chat</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4 w-full">
+      {currentQuestion >= 0 && (
+        <p className="text-center text-light-400">Question {currentQuestion + 1} of {questions.length}</p>
+      )}
+
+      <div className="transcript-border">
+        <div ref={scrollRef} className="dark-gradient rounded-2xl px-5 py-4 flex flex-col gap-4 h-[28rem] overflow-y-auto">
+          {messages.map((turn, index) => (
+            <div
+              key={index}
+              className={cn('flex flex-col gap-0.5 max-w-[80%] animate-fadeIn', turn.role === 'user' && 'self-end items-end')}
+            >
+              <p className="text-xs text-light-400">{turn.role === 'user' ? 'You' : 'Interviewer'}</p>
+              <p className={cn('rounded-2xl px-4 py-2', turn.role === 'user' ? 'bg-dark-200 text-light-100' : 'text-primary-100')}>
+                {turn.content}
+              </p>
+            </div>
+          ))}
+
+          {isWaiting && (
+            <div className="flex flex-col gap-0.5 max-w-[80%]">
+              <p className="text-xs text-light-400">Interviewer · typing</p>
+              <p className="px-4 py-2 text-primary-100">{reply || '. . .'}</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {shortAttempt ? (
+        <div className="flex flex-col items-center gap-4 rounded-2xl bg-dark-200 px-6 py-5 w-full">
+          <p className="text-center">This attempt is too short to score yet:</p>
+          <ul className="text-light-400">
+            {shortAttempt.reasons.map((reason, index) => (
+              <li key={index}>{reason}</li>
+            ))}
+          </ul>
+          <div className="flex flex-row flex-wrap justify-center gap-4">
+            <Button className="btn-primary" onClick={() => setShortAttempt(null)}>Keep Going</Button>
+            <Button className="btn-secondary" onClick={() => saveAttempt(messages, 'candidate-ended')} disabled={isSaving}>
+              Save as Incomplete
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {isAtLimit && (
+            <p className="text-center text-light-400">
+              This chat has reached its limit of {CHAT_MESSAGE_LIMIT} messages. End the interview to get your feedback, or start a new attempt.
+            </p>
+          )}
+          <form onSubmit={handleSend} className="flex flex-row gap-2 form">
+            <Input
+              className="input"
+              placeholder="Type your answer..."
+              value={draftAnswer}
+              onChange={(event) => setDraftAnswer(event.target.value)}
+              disabled={isSaving || isAtLimit}
+              maxLength={4000}
+              autoFocus
+            />
+            <Button type="submit" className="btn-primary" disabled={isWaiting || isSaving || isAtLimit || !draftAnswer.trim()}>
+              Send
+            </Button>
+            <Button type="button" className="btn-disconnect" onClick={() => handleEnd()} disabled={isWaiting || isSaving}>
+              {isSaving ? 'Saving...' : 'End'}
+            </Button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ChatInterview;
@@ -0,0 +1,113 @@
+'use client'
+
+import { useState, type KeyboardEvent } from 'react';
+import { cn } from '@/lib/utils';
+import { runSubmission } from '@/lib/code-runner';
+import { codingLanguageLabels, countPassed, describeLocalRun, describeRunResult } from '@/lib/coding';
+import { Button } from './ui/button';
+
+interface CodingPanelProps {
+  challenge: PublicCodingChallenge;
+  canSubmit: boolean;
+  // runs the hidden tests on the server, null when that failed
+  onSubmit: (code: string) => Promise<CodeRunResult | null>;
+}
+
+const INDENT = '  ';
+
+const CodingPanel = ({ challenge, canSubmit, onSubmit }: CodingPanelProps) => {
+  const [code, setCode] = useState(challenge.starterCode);
+  const [localRun, setLocalRun] = useState<CodeRunResult | null>(null);
+  const [result, setResult] = useState<CodeRunResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const total = challenge.testCount;
+
+  const run = async () => {
+    setIsRunning(true);
+    setLocalRun(await runSubmission(challenge, code));
+    setIsRunning(false);
+  };
+
+  const handleSubmit = async () => {
+    setIsRunning(true);
+    setLocalRun(null);
+    setResult(await onSubmit(code));
+    setIsRunning(false);
+  };
+
+  // a plain textarea moves focus on Tab, in an editor it should indent
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key !== 'Tab') return;
+
+    event.preventDefault();
+
+    const { selectionStart, selectionEnd } = event.currentTarget;
+    const target = event.currentTarget;
+
+    setCode((current) => current.slice(0, selectionStart) + INDENT + current.slice(selectionEnd));
+    requestAnimationFrame(() => target.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length));
+  };
+
+  return (
+    <div className="flex flex-col gap-4 rounded-2xl bg-dark-200 px-6 py-5 w-full">
+      <div className="flex flex-row justify-between items-center gap-4">
+        <h3>{challenge.title}</h3>
+        <span className="px-3 py-1 text-sm rounded-full bg-dark-300 text-light-400">{codingLanguageLabels[challenge.language]}</span>
+      </div>
+
+      <p className="whitespace-pre-line">{challenge.prompt}</p>
+
+      <textarea
+        className="min-h-72 w-full rounded-xl bg-dark-300 p-4 font-mono text-sm text-light-100 outline-none"
+        value={code}
+        onChange={(event) => setCode(event.target.value)}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+        aria-label="Code editor"
+      />
+
+      <div className="flex flex-row flex-wrap items-center gap-4">
+        <Button className="btn-secondary" onClick={run} disabled={isRunning}>
+          {isRunning ? 'Running...' : 'Run Code'}
+        </Button>
+        <Button className="btn-primary" onClick={handleSubmit} disabled={isRunning || !canSubmit}>
+          Submit Solution
+        </Button>
+        {!canSubmit && <p className="text-sm text-light-400">Start the interview to submit your solution.</p>}
+      </div>
+
+      {localRun && (
+        <div className="flex flex-col gap-2">
+          <p className={cn('font-bold', localRun.error || localRun.timedOut ? 'text-destructive-100' : 'text-light-100')}>
+            {describeLocalRun(localRun, challenge)}
+          </p>
+
+          {localRun.logs.length > 0 && (
+            <pre className="rounded-xl bg-dark-300 p-3 text-xs text-light-400 overflow-x-auto">{localRun.logs.join('\n')}</pre>
+          )}
+        </div>
+      )}
+
+      {result && (
+        <div className="flex flex-col gap-2">
+          <p className={cn('font-bold', countPassed(result) === total && !result.error ? 'text-success-100' : 'text-destructive-100')}>
+            {describeRunResult(result, total)}
+          </p>
+
+          {result.results.length > 0 && (
+            <ul className="flex flex-col gap-1">
+              {result.results.map((test, index) => (
+                <li key={index} className={cn('text-sm', test.passed ? 'text-success-100' : 'text-destructive-100')}>
+                  Hidden test {index + 1}: {test.passed ? 'passed' : test.threw ? 'threw an error' : 'wrong result'}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CodingPanel;
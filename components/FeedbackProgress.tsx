@@ -0,0 +1,77 @@
+'use client'
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { retryFeedback } from '@/lib/actions/general.action';
+
+interface FeedbackProgressProps {
+  feedbackId: string;
+  status: FeedbackStatus;
+  error?: string;
+  canRetry: boolean;
+  isOwner: boolean;
+}
+
+const POLL_INTERVAL = 3000;
+
+const FeedbackProgress = ({ feedbackId, status, error, canRetry, isOwner }: FeedbackProgressProps) => {
+  const router = useRouter();
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  const isFailed = status === 'failed';
+
+  // the page is rendered on the server, refreshing it picks up the job's latest status
+  useEffect(() => {
+    if (isFailed) return;
+
+    const interval = setInterval(() => router.refresh(), POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [isFailed, router]);
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+
+    const result = await retryFeedback(feedbackId);
+
+    setIsRetrying(false);
+
+    if (!result.success) {
+      toast.error(result.message);
+      return;
+    }
+
+    router.refresh();
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4 rounded-2xl bg-dark-200 px-6 py-8">
+      {isFailed ? (
+        <>
+          <span className="px-4 py-1 rounded-full bg-destructive-200/20 text-destructive-100">Failed</span>
+          <p className="text-center">{error ?? 'We could not score this attempt.'} Your transcript is saved, so nothing is lost.</p>
+        </>
+      ) : (
+        <>
+          <span className="size-8 rounded-full border-4 border-primary-200 border-t-transparent animate-spin" />
+          <p className="text-center">
+            {status === 'processing' ? 'Scoring your answers...' : 'Waiting to start scoring...'}
+          </p>
+          <p className="text-sm text-light-400 text-center">
+            This usually takes under a minute. You can leave this page, the feedback will be here when you come back.
+          </p>
+        </>
+      )}
+
+      {isOwner && canRetry && (
+        <Button className="btn-primary" onClick={handleRetry} disabled={isRetrying}>
+          {isRetrying ? 'Retrying...' : 'Retry'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default FeedbackProgress;
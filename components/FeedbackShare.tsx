@@ -0,0 +1,82 @@
+'use client'
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { shareFeedback, unshareFeedback } from '@/lib/actions/general.action';
+
+interface FeedbackShareProps {
+  interviewId: string;
+  feedbackId: string;
+  sharedWith: string[];
+}
+
+const FeedbackShare = ({ interviewId, feedbackId, sharedWith: initialReviewers }: FeedbackShareProps) => {
+  const [reviewers, setReviewers] = useState(initialReviewers);
+  const [email, setEmail] = useState('');
+
+  const handleShare = async () => {
+    const result = await shareFeedback({ feedbackId, email });
+
+    if (!result.success) {
+      toast.error(result.message);
+      return;
+    }
+
+    const reviewer = email.trim().toLowerCase();
+    setReviewers((prev) => (prev.includes(reviewer) ? prev : [...prev, reviewer]));
+    setEmail('');
+
+    await navigator.clipboard?.writeText(
+      `${window.location.origin}/interview/${interviewId}/feedback?feedbackId=${feedbackId}`
+    );
+    toast.success('Shared! The link has been copied to your clipboard');
+  };
+
+  const handleRemove = async (reviewer: string) => {
+    const result = await unshareFeedback({ feedbackId, email: reviewer });
+
+    if (!result.success) {
+      toast.error(result.message);
+      return;
+    }
+
+    setReviewers((prev) => prev.filter((item) => item !== reviewer));
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <h3>Share with a Reviewer</h3>
+      <p className="text-sm text-light-400">
+        Only you can see this feedback. Reviewers you add here can open it after signing in with that email.
+      </p>
+      <div className="flex flex-row gap-2 form">
+        <Input
+          className="input"
+          type="email"
+          placeholder="Reviewer's email address"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+        />
+        <Button className="btn-secondary" onClick={handleShare} disabled={!email.trim()}>
+          Share
+        </Button>
+      </div>
+      {reviewers.length > 0 && (
+        <ul className="flex flex-col gap-2">
+          {reviewers.map((reviewer) => (
+            <li key={reviewer} className="flex flex-row justify-between items-center">
+              <span>{reviewer}</span>
+              <Button variant="ghost" onClick={() => handleRemove(reviewer)}>
+                Remove
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FeedbackShare;
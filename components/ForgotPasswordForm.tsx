@@ -0,0 +1,89 @@
+"use client"
+
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import { z } from "zod"
+import { useState } from "react"
+
+import { Button } from "@/components/ui/button"
+import { Form } from "@/components/ui/form"
+
+import Image from "next/image"
+import Link from "next/link"
+import { toast } from "sonner"
+import FormField from "@/components/FormField"
+import { sendPasswordResetEmail } from "firebase/auth"
+import { auth } from "@/firebase/client"
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email({ message: "Invalid Email format" }),
+})
+
+const ForgotPasswordForm = () => {
+  const [isSent, setIsSent] = useState(false)
+
+  const form = useForm<z.infer<typeof forgotPasswordSchema>>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  })
+
+  async function onSubmit({ email }: z.infer<typeof forgotPasswordSchema>) {
+    try {
+      await sendPasswordResetEmail(auth, email)
+    } catch (error) {
+      // don't reveal which addresses have accounts
+      if (!(error instanceof Error && error.message.includes("auth/user-not-found"))) {
+        toast.error("Could not send the reset email, please try again")
+        return
+      }
+    }
+
+    setIsSent(true)
+  }
+
+  return (
+    <div className="card-border lg:min-w-[566px]">
+      <div className="flex flex-col gap-6 card py-14 px-10">
+        <div className="flex flex-row gap-2 justify-center">
+          <Image
+            src="/logo.png"
+            alt="logo"
+            height={32}
+            width={38} />
+          <h2 className="text-primary-100">Intervia</h2>
+        </div>
+        <h3 className="text-center">Reset your password</h3>
+
+        {isSent ? (
+          <p className="text-center">
+            If an account exists for that address, you&apos;ll receive an email with a link to reset your password.
+          </p>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit, (errors) => toast.error(errors.email?.message))} className="w-full space-y-6 mt-4 form">
+              <FormField
+                control={form.control}
+                name="email"
+                placeholder="Email Address"
+                type="email"
+              />
+
+              <Button className="btn" type="submit" disabled={form.formState.isSubmitting}>
+                Send Reset Link
+              </Button>
+            </form>
+          </Form>
+        )}
+
+        <p className="text-center">
+          Remembered it?
+          <Link href="/sign-in" className="font-bold text-user-primary ml-1">
+            Sign In
+          </Link>
+        </p>
+      </div>
+    </div>
+  )
+}
+
+export default ForgotPasswordForm
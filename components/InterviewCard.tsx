@@ -17,6 +17,7 @@ interface Feedback {
     strengths?: string[];
     areasForImprovement?: string[];
     finalAssessment?: string;
+    status?: FeedbackStatus;
     createdAt?: string | Date;
 }
 
@@ -52,7 +53,11 @@ const InterviewCard = ({ id, userId, role, type, level, techstack, createdAt, fe
     const normalizedType = /mix/gi.test(type) ? 'Mixed' : type;
     const formattedLevel = level ? formatLevelText(level) : '';
     const formattedDate = dayjs(feedback?.createdAt || createdAt || Date.now()).format('MMM D, YYYY');
-    const hasFeedback = !!feedback?.finalAssessment;
+    const isIncomplete = feedback?.status === 'incomplete';
+    const isScoring = feedback?.status === 'pending' || feedback?.status === 'processing';
+    const isFailed = feedback?.status === 'failed';
+    const hasFeedback = !!feedback?.finalAssessment && !isIncomplete;
+    const hasAttempt = hasFeedback || isScoring || isFailed;
 
     return (
         <div className={`card-border w-[360px] m-sm:w-full ${hasFeedback ? 'h-auto' : 'max-h-96'}`}>
@@ -91,7 +96,22 @@ const InterviewCard = ({ id, userId, role, type, level, techstack, createdAt, fe
                             <p className="line-clamp-4">{feedback.finalAssessment}</p>
                         </div>
                     )}
-                    {!hasFeedback && (
+                    {isIncomplete && (
+                        <div className="flex-1 flex items-center">
+                            <p className="text-destructive-100 text-center w-full">Your last attempt was too short to score.</p>
+                        </div>
+                    )}
+                    {isScoring && (
+                        <div className="flex-1 flex items-center">
+                            <p className="text-light-400 text-center w-full">Your feedback is being generated.</p>
+                        </div>
+                    )}
+                    {isFailed && (
+                        <div className="flex-1 flex items-center">
+                            <p className="text-destructive-100 text-center w-full">Scoring your last attempt failed, open it to retry.</p>
+                        </div>
+                    )}
+                    {!hasAttempt && !isIncomplete && (
                         <div className="flex-1 flex items-center">
                             <p className="text-gray-500 text-center w-full">You haven't taken the interview yet!</p>
                         </div>
@@ -107,7 +127,7 @@ const InterviewCard = ({ id, userId, role, type, level, techstack, createdAt, fe
                 </div>
 
                 <div className="flex flex-col gap-2 mt-3">
-                    {hasFeedback && (
+                    {hasAttempt && (
                         <Button asChild className="btn-primary">
                             <Link href={`/interview/${id}/feedback`} className="w-full text-center">
                                 Check Feedback
@@ -117,7 +137,7 @@ const InterviewCard = ({ id, userId, role, type, level, techstack, createdAt, fe
                     
                     <Button asChild className="btn-primary">
                         <Link href={`/interview/${id}`} className='w-full text-center'>
-                            {hasFeedback ? 'Retake Interview' : 'Take Interview'}
+                            {hasAttempt ? 'Retake Interview' : isIncomplete ? 'Continue Interview' : 'Take Interview'}
                         </Link>
                     </Button>
                 </div>
@@ -0,0 +1,144 @@
+'use client'
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { ArrowDown, ArrowUp, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { cn } from '@/lib/utils';
+import { normalizeQuestions } from '@/lib/questions';
+import { regenerateQuestion, updateInterviewQuestions } from '@/lib/actions/general.action';
+import { MAX_QUESTION_COUNT } from '@/constants';
+
+interface InterviewEditorProps {
+  interviewId: string;
+  questions: InterviewQuestion[];
+  finalized: boolean;
+}
+
+const InterviewEditor = ({ interviewId, questions: initialQuestions, finalized }: InterviewEditorProps) => {
+  const router = useRouter();
+  const [questions, setQuestions] = useState(initialQuestions);
+  const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateText = (index: number, text: string) =>
+    setQuestions((prev) => prev.map((question, i) => (i === index ? { ...question, text } : question)));
+
+  const move = (index: number, offset: number) =>
+    setQuestions((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+
+  const remove = (index: number) => setQuestions((prev) => prev.filter((_, i) => i !== index));
+
+  const addQuestion = () => setQuestions((prev) => [...prev, ...normalizeQuestions([''])]);
+
+  const handleRegenerate = async (index?: number) => {
+    setRegeneratingIndex(index ?? questions.length);
+
+    const result = await regenerateQuestion({ interviewId, questions, index });
+
+    setRegeneratingIndex(null);
+
+    if (!result.success || !result.question) {
+      toast.error(result.message);
+      return;
+    }
+
+    const { question } = result;
+
+    setQuestions((prev) =>
+      index === undefined ? [...prev, question] : prev.map((item, i) => (i === index ? question : item))
+    );
+  };
+
+  const handleSave = async (finalize: boolean) => {
+    setIsSaving(true);
+
+    const result = await updateInterviewQuestions({ interviewId, questions, finalize });
+
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast.error(result.message);
+      return;
+    }
+
+    if (finalize) {
+      toast.success('Interview confirmed!');
+      router.push(`/interview/${interviewId}`);
+    } else {
+      toast.success('Changes saved');
+      router.refresh();
+    }
+  };
+
+  const canAddMore = questions.length < MAX_QUESTION_COUNT;
+  const isBusy = isSaving || regeneratingIndex !== null;
+
+  return (
+    <div className="flex flex-col gap-6">
+      {questions.map((question, index) => (
+        <div key={index} className="flex flex-col gap-3 rounded-2xl bg-dark-200 px-6 py-5">
+          <div className="flex flex-row justify-between items-center gap-4">
+            <p className="font-bold">Question {index + 1}</p>
+            <p className="text-sm text-light-400 capitalize">
+              {question.category} · {question.difficulty}
+            </p>
+          </div>
+
+          <textarea
+            className={cn(
+              'w-full min-h-24 rounded-2xl bg-dark-300 px-5 py-3 text-light-100 resize-y',
+              regeneratingIndex === index && 'opacity-50'
+            )}
+            value={question.text}
+            placeholder="Type your question"
+            disabled={regeneratingIndex === index}
+            onChange={(event) => updateText(index, event.target.value)}
+          />
+
+          <div className="flex flex-row gap-2 justify-end">
+            <Button variant="ghost" size="icon" aria-label="Move up" disabled={index === 0 || isBusy} onClick={() => move(index, -1)}>
+              <ArrowUp />
+            </Button>
+            <Button variant="ghost" size="icon" aria-label="Move down" disabled={index === questions.length - 1 || isBusy} onClick={() => move(index, 1)}>
+              <ArrowDown />
+            </Button>
+            <Button variant="ghost" size="icon" aria-label="Regenerate" disabled={isBusy} onClick={() => handleRegenerate(index)}>
+              <RefreshCw className={cn(regeneratingIndex === index && 'animate-spin')} />
+            </Button>
+            <Button variant="ghost" size="icon" aria-label="Delete" disabled={questions.length === 1 || isBusy} onClick={() => remove(index)}>
+              <Trash2 />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-row gap-4 flex-wrap">
+        <Button className="btn-secondary" disabled={!canAddMore || isBusy} onClick={addQuestion}>
+          Add My Own Question
+        </Button>
+        <Button className="btn-secondary" disabled={!canAddMore || isBusy} onClick={() => handleRegenerate()}>
+          {regeneratingIndex === questions.length ? 'Generating...' : 'Suggest a Question'}
+        </Button>
+      </div>
+
+      <div className="buttons">
+        <Button className="btn-secondary flex-1" disabled={isBusy} onClick={() => handleSave(false)}>
+          {finalized ? 'Save Changes' : 'Save Draft'}
+        </Button>
+        {!finalized && (
+          <Button className="btn-primary flex-1" disabled={isBusy} onClick={() => handleSave(true)}>
+            Confirm & Finalize
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InterviewEditor;
@@ -0,0 +1,159 @@
+"use client"
+
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Controller, useForm } from "react-hook-form"
+import { z } from "zod"
+import { useRouter } from "next/navigation"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Form, FormControl, FormItem, FormLabel } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import FormField from "@/components/FormField"
+import TechStackPicker from "@/components/TechStackPicker"
+import { createInterview } from "@/lib/actions/general.action"
+import { createInterviewSchema, interviewLevels, interviewTypes, MAX_QUESTION_COUNT } from "@/constants"
+
+type InterviewFormValues = z.infer<typeof createInterviewSchema>
+
+const selectClassName = "w-full !bg-dark-200 !rounded-full !min-h-12 !px-5 text-light-100"
+
+const InterviewForm = ({
+  role = "",
+  level = interviewLevels[0],
+  type = interviewTypes[0],
+  techstack = [],
+  amount = 5,
+  includeCodingChallenge = false,
+}: Partial<InterviewFormProps>) => {
+  const router = useRouter()
+
+  const form = useForm<InterviewFormValues>({
+    resolver: zodResolver(createInterviewSchema),
+    defaultValues: { role, level, type, techstack, amount, includeCodingChallenge },
+  })
+
+  const { isSubmitting } = form.formState
+
+  async function onSubmit(values: InterviewFormValues) {
+    const result = await createInterview(values)
+
+    if (!result.success || !result.interviewId) {
+      toast.error(result.message)
+      return
+    }
+
+    toast.success("Interview created, review your questions")
+    router.push(`/interview/${result.interviewId}/edit`)
+  }
+
+  function onInvalid(errors: Partial<Record<keyof InterviewFormValues, { message?: string }>>) {
+    const firstError = Object.values(errors).find((error) => error?.message)
+    if (firstError?.message) toast.error(firstError.message)
+  }
+
+  return (
+    <div className="card-border lg:min-w-[566px]">
+      <div className="flex flex-col gap-6 card py-14 px-10">
+        <h3 className="text-center">Build your own interview</h3>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit, onInvalid)} className="w-full space-y-6 mt-4 form">
+            <FormField control={form.control} name="role" placeholder="Role, e.g. Frontend Developer" />
+
+            <div className="flex flex-row gap-4 max-sm:flex-col">
+              <Controller
+                control={form.control}
+                name="level"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel className="label">Experience level</FormLabel>
+                    <FormControl>
+                      <select className={selectClassName} {...field}>
+                        {interviewLevels.map((option) => (
+                          <option key={option} value={option}>{option}</option>
+                        ))}
+                      </select>
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <Controller
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel className="label">Interview type</FormLabel>
+                    <FormControl>
+                      <select className={selectClassName} {...field}>
+                        {interviewTypes.map((option) => (
+                          <option key={option} value={option}>{option}</option>
+                        ))}
+                      </select>
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Controller
+              control={form.control}
+              name="techstack"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="label">Tech stack</FormLabel>
+                  <TechStackPicker value={field.value} onChange={field.onChange} />
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="label">Number of questions</FormLabel>
+                  <FormControl>
+                    <Input
+                      className="input"
+                      type="number"
+                      min={1}
+                      max={MAX_QUESTION_COUNT}
+                      {...field}
+                      onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="includeCodingChallenge"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center gap-3">
+                  <FormControl>
+                    <input
+                      type="checkbox"
+                      className="size-4 accent-primary-200"
+                      checked={field.value}
+                      onChange={(event) => field.onChange(event.target.checked)}
+                    />
+                  </FormControl>
+                  <FormLabel className="label">Include a coding challenge (JavaScript or TypeScript)</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <Button className="btn" type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Generating questions..." : "Create Interview"}
+            </Button>
+          </form>
+        </Form>
+      </div>
+    </div>
+  )
+}
+
+export default InterviewForm
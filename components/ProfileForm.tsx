@@ -0,0 +1,183 @@
+"use client"
+
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Controller, useForm } from "react-hook-form"
+import { z } from "zod"
+import { useRouter } from "next/navigation"
+import Image from "next/image"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Form, FormControl, FormItem, FormLabel } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import FormField from "@/components/FormField"
+import TechStackPicker from "@/components/TechStackPicker"
+import { updateProfile } from "@/lib/actions/profile.action"
+import { interviewerVoices, interviewLevels, MAX_QUESTION_COUNT, profileSchema } from "@/constants"
+
+type ProfileFormValues = z.infer<typeof profileSchema>
+
+const selectClassName = "w-full !bg-dark-200 !rounded-full !min-h-12 !px-5 text-light-100"
+
+const ProfileForm = ({ user }: { user: User }) => {
+  const router = useRouter()
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      name: user.name,
+      avatarUrl: user.avatarUrl ?? "",
+      targetRole: user.targetRole ?? "",
+      experienceLevel: user.experienceLevel ?? interviewLevels[0],
+      preferredTechStack: user.preferredTechStack ?? [],
+      interviewerVoice: user.interviewerVoice ?? interviewerVoices[0].id,
+      speakingSpeed: user.speakingSpeed ?? 0.9,
+      defaultQuestionCount: user.defaultQuestionCount ?? 5,
+    },
+  })
+
+  const avatarUrl = form.watch("avatarUrl")
+  const speakingSpeed = form.watch("speakingSpeed")
+
+  async function onSubmit(values: ProfileFormValues) {
+    const result = await updateProfile(values)
+
+    if (!result.success) {
+      toast.error(result.message)
+      return
+    }
+
+    toast.success("Profile saved!")
+    router.refresh()
+  }
+
+  function onInvalid(errors: Partial<Record<keyof ProfileFormValues, { message?: string }>>) {
+    const firstError = Object.values(errors).find((error) => error?.message)
+    if (firstError?.message) toast.error(firstError.message)
+  }
+
+  return (
+    <div className="card-border lg:min-w-[566px]">
+      <div className="flex flex-col gap-6 card py-14 px-10">
+        <div className="flex flex-col items-center gap-2">
+          <Image
+            src={avatarUrl || "/user-icon.png"}
+            alt="avatar"
+            width={120}
+            height={120}
+            unoptimized={!!avatarUrl}
+            className="rounded-full object-cover size-[120px]"
+          />
+          <p className="text-light-400">{user.email}</p>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit, onInvalid)} className="w-full space-y-6 form">
+            <FormField control={form.control} name="name" placeholder="Name" />
+            <FormField control={form.control} name="avatarUrl" placeholder="Avatar image URL" />
+
+            <h4 className="text-primary-100">Interview preferences</h4>
+
+            <FormField control={form.control} name="targetRole" placeholder="Target role, e.g. Backend Engineer" />
+
+            <div className="flex flex-row gap-4 max-sm:flex-col">
+              <Controller
+                control={form.control}
+                name="experienceLevel"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel className="label">Experience level</FormLabel>
+                    <FormControl>
+                      <select className={selectClassName} {...field}>
+                        {interviewLevels.map((option) => (
+                          <option key={option} value={option}>{option}</option>
+                        ))}
+                      </select>
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <Controller
+                control={form.control}
+                name="defaultQuestionCount"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel className="label">Default number of questions</FormLabel>
+                    <FormControl>
+                      <Input
+                        className="input"
+                        type="number"
+                        min={1}
+                        max={MAX_QUESTION_COUNT}
+                        {...field}
+                        onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Controller
+              control={form.control}
+              name="preferredTechStack"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="label">Preferred tech stack</FormLabel>
+                  <TechStackPicker value={field.value} onChange={field.onChange} />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex flex-row gap-4 max-sm:flex-col">
+              <Controller
+                control={form.control}
+                name="interviewerVoice"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel className="label">Interviewer voice</FormLabel>
+                    <FormControl>
+                      <select className={selectClassName} {...field}>
+                        {interviewerVoices.map((voice) => (
+                          <option key={voice.id} value={voice.id}>{voice.label}</option>
+                        ))}
+                      </select>
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <Controller
+                control={form.control}
+                name="speakingSpeed"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel className="label">Speaking speed ({speakingSpeed.toFixed(1)}x)</FormLabel>
+                    <FormControl>
+                      <input
+                        type="range"
+                        min={0.5}
+                        max={1.5}
+                        step={0.1}
+                        className="w-full min-h-12 accent-primary-200"
+                        {...field}
+                        onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Button className="btn" type="submit" disabled={form.formState.isSubmitting}>
+              Save Profile
+            </Button>
+          </form>
+        </Form>
+      </div>
+    </div>
+  )
+}
+
+export default ProfileForm
@@ -0,0 +1,62 @@
+import { cn } from "@/lib/utils";
+
+interface QuestionBreakdownProps {
+  questionScores: QuestionScore[];
+}
+
+const verdictStyles: Record<QuestionVerdict, string> = {
+  answered: "bg-success-200/20 text-success-100",
+  partial: "bg-primary-200/20 text-primary-200",
+  skipped: "bg-destructive-200/20 text-destructive-100",
+};
+
+const QuestionBreakdown = ({ questionScores }: QuestionBreakdownProps) => {
+  if (questionScores.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <h2>Question by Question:</h2>
+      {questionScores.map((item, index) => (
+        <div key={index} className="flex flex-col gap-3 rounded-2xl bg-dark-200 px-6 py-5">
+          <div className="flex flex-row justify-between gap-4 max-sm:flex-col">
+            <p className="font-bold">
+              {index + 1}. {item.question}
+            </p>
+            <div className="flex flex-row gap-2 items-center shrink-0">
+              <span className={cn("px-3 py-1 text-sm rounded-full capitalize", verdictStyles[item.verdict])}>
+                {item.verdict}
+              </span>
+              <p className="font-bold">{item.score}/100</p>
+            </div>
+          </div>
+
+          <p>{item.comment}</p>
+
+          {item.candidateQuotes.length > 0 && (
+            <div className="flex flex-col gap-1">
+              <p className="text-sm text-light-400">What you said</p>
+              {item.candidateQuotes.map((quote, quoteIndex) => (
+                <blockquote key={quoteIndex} className="border-l-2 border-primary-200/50 pl-3 italic">
+                  &ldquo;{quote}&rdquo;
+                </blockquote>
+              ))}
+            </div>
+          )}
+
+          {item.modelAnswerHints.length > 0 && (
+            <div className="flex flex-col gap-1">
+              <p className="text-sm text-light-400">A strong answer would cover</p>
+              <ul className="list-disc pl-5">
+                {item.modelAnswerHints.map((hint, hintIndex) => (
+                  <li key={hintIndex}>{hint}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default QuestionBreakdown;
@@ -0,0 +1,44 @@
+'use client'
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { auth } from '@/firebase/client';
+import { refreshSession } from '@/lib/actions/auth.action';
+
+interface SessionRefresherProps {
+  expiresAt: number | null;
+}
+
+// refresh the session cookie once it has less than a day left
+const REFRESH_WINDOW = 24 * 60 * 60 * 1000;
+
+const SessionRefresher = ({ expiresAt }: SessionRefresherProps) => {
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const refresh = () => {
+      const unsubscribe = auth.onAuthStateChanged(async (user) => {
+        unsubscribe();
+
+        // signed out on this device, let the session run out
+        if (!user) return;
+
+        const idToken = await user.getIdToken(true);
+        const { success } = await refreshSession(idToken);
+
+        // picks up the new expiry so the next refresh gets scheduled
+        if (success) router.refresh();
+      });
+    };
+
+    const timeout = setTimeout(refresh, Math.max(expiresAt - REFRESH_WINDOW - Date.now(), 0));
+
+    return () => clearTimeout(timeout);
+  }, [expiresAt, router]);
+
+  return null;
+};
+
+export default SessionRefresher;
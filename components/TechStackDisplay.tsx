@@ -1,4 +1,6 @@
+import Image from "next/image";
 import { cn } from "@/lib/utils";
+import { getTechIconUrl, normalizeTechStack } from "@/lib/tech";
 
 interface TechStackDisplayProps {
   techStack?: string[];
@@ -6,44 +8,44 @@ interface TechStackDisplayProps {
   className?: string;
 }
 
-// Helper function to format tech stack names with proper title case
-const formatTechName = (name: string): string => {
-  if (!name) return '';
-  
-  return name
-    .toLowerCase()
-    .split(/[\s-]+/) // Split by spaces or hyphens
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(' ');
-};
-
-const TechStackDisplay = ({ 
-  techStack = [], 
+const TechStackDisplay = ({
+  techStack = [],
   maxItems = 4,
   className = ''
 }: TechStackDisplayProps) => {
-  if (!techStack || techStack.length === 0) return null;
+  // older interviews were stored before normalization, so map them onto the catalog here too
+  const items = normalizeTechStack(techStack ?? []);
 
-  // Process tech stack names with proper title case formatting
-  const displayItems = techStack
-    .filter(Boolean) // Remove any empty/null items
-    .slice(0, maxItems) // Limit to maxItems
-    .map(tech => formatTechName(tech));
+  if (items.length === 0) return null;
 
-  if (displayItems.length === 0) return null;
+  const visibleItems = items.slice(0, maxItems);
+  const hiddenItems = items.slice(maxItems);
 
   return (
     <div className={cn("flex flex-wrap gap-2", className)}>
-      {displayItems.map((tech, index) => (
-        <span 
-          key={`${tech}-${index}`}
-          className="px-3 py-1 text-sm rounded-full bg-dark-300 text-light-100"
+      {visibleItems.map((tech) => {
+        const iconUrl = getTechIconUrl(tech);
+
+        return (
+          <span
+            key={tech}
+            className="flex flex-row items-center gap-1.5 px-3 py-1 text-sm rounded-full bg-dark-300 text-light-100"
+          >
+            {iconUrl && <Image src={iconUrl} alt="" width={16} height={16} unoptimized className="size-4" />}
+            {tech}
+          </span>
+        );
+      })}
+      {hiddenItems.length > 0 && (
+        <span
+          title={hiddenItems.join(", ")}
+          className="px-3 py-1 text-sm rounded-full bg-dark-300 text-light-400"
         >
-          {tech}
+          +{hiddenItems.length} more
         </span>
-      ))}
+      )}
     </div>
   );
 };
 
-export default TechStackDisplay;
\ No newline at end of file
+export default TechStackDisplay;
@@ -0,0 +1,69 @@
+'use client'
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import { normalizeTech } from "@/lib/tech"
+import { techCatalog } from "@/constants"
+
+const catalogNames = techCatalog.map((entry) => entry.name)
+
+interface TechStackPickerProps {
+  value: string[]
+  onChange: (value: string[]) => void
+}
+
+const TechStackPicker = ({ value, onChange }: TechStackPickerProps) => {
+  const [customTech, setCustomTech] = useState("")
+
+  const toggle = (tech: string) =>
+    onChange(value.includes(tech) ? value.filter((item) => item !== tech) : [...value, tech])
+
+  const addCustomTech = () => {
+    const tech = normalizeTech(customTech)
+    if (tech && !value.includes(tech)) onChange([...value, tech])
+    setCustomTech("")
+  }
+
+  const options = [...catalogNames, ...value.filter((tech) => !catalogNames.includes(tech))]
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {options.map((tech) => (
+          <button
+            key={tech}
+            type="button"
+            onClick={() => toggle(tech)}
+            className={cn(
+              "px-3 py-1 text-sm rounded-full cursor-pointer",
+              value.includes(tech) ? "bg-primary-200 text-dark-100" : "bg-dark-300 text-light-100"
+            )}
+          >
+            {tech}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-row gap-2">
+        <Input
+          className="input"
+          placeholder="Add another technology"
+          value={customTech}
+          onChange={(event) => setCustomTech(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.preventDefault()
+              addCustomTech()
+            }
+          }}
+        />
+        <Button type="button" className="btn-secondary" onClick={addCustomTech}>
+          Add
+        </Button>
+      </div>
+    </>
+  )
+}
+
+export default TechStackPicker
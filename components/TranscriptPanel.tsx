@@ -0,0 +1,62 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { formatOffset } from '@/lib/transcript';
+import { Button } from './ui/button';
+
+interface TranscriptPanelProps {
+  turns: TranscriptTurn[];
+  partial: Pick<TranscriptTurn, 'role' | 'content'> | null;
+  startedAt: string | null;
+}
+
+const speakerLabel = (role: TranscriptTurn['role']) => (role === 'user' ? 'You' : 'Interviewer');
+
+const TranscriptPanel = ({ turns, partial, startedAt }: TranscriptPanelProps) => {
+  const [isHidden, setIsHidden] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // keep the newest line in view while the call is running
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [turns.length, partial?.content, isHidden]);
+
+  if (turns.length === 0 && !partial) return null;
+
+  return (
+    <div className="transcript-border">
+      <div className="dark-gradient rounded-2xl px-5 py-4 flex flex-col gap-3">
+        <div className="flex flex-row justify-between items-center">
+          <p className="text-sm text-light-400">Transcript</p>
+          <Button variant="ghost" className="text-sm" onClick={() => setIsHidden((hidden) => !hidden)}>
+            {isHidden ? 'Show transcript' : 'Hide transcript'}
+          </Button>
+        </div>
+
+        {!isHidden && (
+          <div ref={scrollRef} className="flex flex-col gap-3 max-h-72 overflow-y-auto pr-2">
+            {turns.map((turn, index) => (
+              <div key={index} className="flex flex-col gap-0.5 animate-fadeIn">
+                <p className="text-xs text-light-400">
+                  {speakerLabel(turn.role)}
+                  {startedAt && ` · ${formatOffset(turn.timestamp, startedAt)}`}
+                </p>
+                <p className={cn(turn.role === 'user' ? 'text-light-100' : 'text-primary-100')}>{turn.content}</p>
+              </div>
+            ))}
+
+            {partial && (
+              <div className="flex flex-col gap-0.5">
+                <p className="text-xs text-light-400">{speakerLabel(partial.role)} · speaking</p>
+                <p className="italic opacity-60">{partial.content}</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,91 @@
+'use client'
+
+import { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { formatOffset } from '@/lib/transcript';
+import { Button } from './ui/button';
+
+interface TranscriptReplayProps {
+  transcript: TranscriptTurn[];
+  startedAt: string;
+}
+
+// longest pause we wait for between two turns while auto playing
+const MAX_REPLAY_DELAY = 4000;
+
+const TranscriptReplay = ({ transcript, startedAt }: TranscriptReplayProps) => {
+  const [visibleCount, setVisibleCount] = useState(1);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const isFinished = visibleCount >= transcript.length;
+
+  useEffect(() => {
+    if (!isPlaying || isFinished) return;
+
+    const current = transcript[visibleCount - 1];
+    const next = transcript[visibleCount];
+    const gap = Date.parse(next.timestamp) - Date.parse(current.timestamp);
+
+    const timeout = setTimeout(
+      () => setVisibleCount((count) => count + 1),
+      Math.min(Math.max(gap, 500), MAX_REPLAY_DELAY)
+    );
+
+    return () => clearTimeout(timeout);
+  }, [isPlaying, isFinished, visibleCount, transcript]);
+
+  if (transcript.length === 0) {
+    return <p className="text-gray-500">Nothing was recorded during this attempt.</p>;
+  }
+
+  const handlePlay = () => {
+    if (isFinished) setVisibleCount(1);
+    setIsPlaying((playing) => !playing || isFinished);
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-col gap-4">
+        {transcript.slice(0, visibleCount).map((turn, index) => (
+          <div
+            key={index}
+            className={cn(
+              'flex flex-col gap-1 max-w-[80%] rounded-2xl px-5 py-3 animate-fadeIn',
+              turn.role === 'user' ? 'self-end bg-dark-200' : 'self-start blue-gradient-dark'
+            )}
+          >
+            <p className="text-sm text-light-400">
+              {turn.role === 'user' ? 'You' : 'Interviewer'} · {formatOffset(turn.timestamp, startedAt)}
+            </p>
+            <p>{turn.content}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-row gap-4 justify-center items-center">
+        <Button
+          className="btn-secondary"
+          disabled={visibleCount <= 1}
+          onClick={() => { setIsPlaying(false); setVisibleCount((count) => count - 1); }}
+        >
+          Previous
+        </Button>
+        <Button className="btn-primary" onClick={handlePlay}>
+          {isPlaying && !isFinished ? 'Pause' : isFinished ? 'Replay' : 'Play'}
+        </Button>
+        <Button
+          className="btn-secondary"
+          disabled={isFinished}
+          onClick={() => { setIsPlaying(false); setVisibleCount((count) => count + 1); }}
+        >
+          Next
+        </Button>
+        <p className="text-sm text-light-400">
+          Turn {visibleCount} of {transcript.length}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptReplay;
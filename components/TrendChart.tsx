@@ -0,0 +1,97 @@
+import dayjs from "dayjs";
+
+interface TrendSeries {
+  name: string;
+  points: ProgressPoint[];
+}
+
+interface TrendChartProps {
+  series: TrendSeries[];
+  height?: number;
+}
+
+const WIDTH = 640;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 36 };
+const GRID_LINES = [0, 25, 50, 75, 100];
+const COLORS = ["var(--chart-1)", "var(--chart-2)", "var(--chart-3)", "var(--chart-4)", "var(--chart-5)"];
+
+// Scores are always out of 100, so the y axis is fixed and charts for
+// different categories can be compared at a glance.
+const TrendChart = ({ series, height = 240 }: TrendChartProps) => {
+  const times = series.flatMap(({ points }) => points.map((point) => dayjs(point.date).valueOf()));
+
+  if (times.length === 0) return null;
+
+  const start = Math.min(...times);
+  const span = Math.max(...times) - start;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  // a single attempt has no time span, so it's centred instead
+  const x = (date: string) =>
+    PADDING.left + (span ? ((dayjs(date).valueOf() - start) / span) * plotWidth : plotWidth / 2);
+  const y = (score: number) => PADDING.top + plotHeight - (score / 100) * plotHeight;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+        {GRID_LINES.map((score) => (
+          <g key={score}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(score)}
+              y2={y(score)}
+              className="stroke-light-800"
+            />
+            <text x={PADDING.left - 8} y={y(score) + 4} textAnchor="end" className="fill-light-400 text-[10px]">
+              {score}
+            </text>
+          </g>
+        ))}
+
+        <text x={PADDING.left} y={height - 6} className="fill-light-400 text-[10px]">
+          {dayjs(start).format("MMM D")}
+        </text>
+        {span > 0 && (
+          <text x={WIDTH - PADDING.right} y={height - 6} textAnchor="end" className="fill-light-400 text-[10px]">
+            {dayjs(start + span).format("MMM D")}
+          </text>
+        )}
+
+        {series.map(({ name, points }, index) => {
+          const color = COLORS[index % COLORS.length];
+
+          return (
+            <g key={name}>
+              <polyline
+                fill="none"
+                stroke={color}
+                strokeWidth={2}
+                points={points.map((point) => `${x(point.date)},${y(point.score)}`).join(" ")}
+              />
+              {points.map((point, pointIndex) => (
+                <circle key={pointIndex} cx={x(point.date)} cy={y(point.score)} r={4} fill={color}>
+                  <title>{`${name}: ${point.score}/100 on ${dayjs(point.date).format("MMM D, YYYY")}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+
+      {series.length > 1 && (
+        <div className="flex flex-row flex-wrap gap-4">
+          {series.map(({ name }, index) => (
+            <div key={name} className="flex flex-row items-center gap-2 text-sm">
+              <span className="size-3 rounded-full" style={{ backgroundColor: COLORS[index % COLORS.length] }} />
+              {name}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrendChart;
@@ -0,0 +1,50 @@
+'use client'
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { updateInterviewVisibility } from '@/lib/actions/general.action';
+import { interviewVisibilities } from '@/constants';
+
+interface VisibilitySelectProps {
+  interviewId: string;
+  visibility: InterviewVisibility;
+}
+
+const visibilityLabels: Record<InterviewVisibility, string> = {
+  private: 'Private - only you',
+  link: 'Anyone with the link',
+  public: 'Public - listed for everyone',
+};
+
+const VisibilitySelect = ({ interviewId, visibility: initialVisibility }: VisibilitySelectProps) => {
+  const [visibility, setVisibility] = useState(initialVisibility);
+
+  const handleChange = async (next: InterviewVisibility) => {
+    const previous = visibility;
+    setVisibility(next);
+
+    const result = await updateInterviewVisibility({ interviewId, visibility: next });
+
+    if (!result.success) {
+      setVisibility(previous);
+      toast.error(result.message);
+    }
+  };
+
+  return (
+    <label className="flex flex-row gap-3 items-center">
+      <span className="text-light-400">Visibility</span>
+      <select
+        className="bg-dark-200 rounded-full min-h-10 px-4 text-light-100"
+        value={visibility}
+        onChange={(event) => handleChange(event.target.value as InterviewVisibility)}
+      >
+        {interviewVisibilities.map((option) => (
+          <option key={option} value={option}>{visibilityLabels[option]}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default VisibilitySelect;
@@ -0,0 +1,231 @@
+'use client'
+
+import { useRef, useState, type PointerEvent } from 'react';
+import { cn } from '@/lib/utils';
+import { BOARD_HEIGHT, BOARD_WIDTH, NODE_HEIGHT, NODE_WIDTH, boxBorderPoint, clamp, nextNodePosition } from '@/lib/whiteboard';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+
+interface WhiteboardProps {
+  diagram: WhiteboardDiagram;
+  onChange?: (diagram: WhiteboardDiagram) => void;
+}
+
+interface Drag {
+  nodeId: string;
+  offsetX: number;
+  offsetY: number;
+}
+
+// Boxes and arrows only, enough to sketch an architecture while talking it
+// through. Without onChange the board is read only, for replaying a session.
+const Whiteboard = ({ diagram, onChange }: WhiteboardProps) => {
+  const [label, setLabel] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [connectFrom, setConnectFrom] = useState<string | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const isReadOnly = !onChange;
+  const nodesById = new Map(diagram.nodes.map((node) => [node.id, node]));
+  const selectedNode = selectedId ? nodesById.get(selectedId) : undefined;
+  const selectedEdge = diagram.edges.find((edge) => edge.id === selectedId);
+
+  // pointer positions are in screen pixels, the diagram is stored in board units
+  const toBoardPoint = (event: PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * BOARD_WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * BOARD_HEIGHT,
+    };
+  };
+
+  const handleAddBox = () => {
+    const node = { id: crypto.randomUUID(), label: label.trim() || 'Component', ...nextNodePosition(diagram) };
+
+    onChange?.({ ...diagram, nodes: [...diagram.nodes, node] });
+    setLabel('');
+    setSelectedId(node.id);
+  };
+
+  const handleRename = () => {
+    if (!selectedId) return;
+
+    onChange?.({
+      nodes: diagram.nodes.map((node) => (node.id === selectedId ? { ...node, label: label.trim() || node.label } : node)),
+      edges: diagram.edges.map((edge) => (edge.id === selectedId ? { ...edge, label: label.trim() || undefined } : edge)),
+    });
+    setLabel('');
+  };
+
+  const handleDelete = () => {
+    if (!selectedId) return;
+
+    onChange?.({
+      nodes: diagram.nodes.filter((node) => node.id !== selectedId),
+      edges: diagram.edges.filter((edge) => edge.id !== selectedId && edge.from !== selectedId && edge.to !== selectedId),
+    });
+    setSelectedId(null);
+  };
+
+  const handleNodePointerDown = (event: PointerEvent, node: DiagramNode) => {
+    if (isReadOnly) return;
+
+    event.stopPropagation();
+
+    if (isConnecting) {
+      if (!connectFrom) {
+        setConnectFrom(node.id);
+        return;
+      }
+
+      const isDuplicate = diagram.edges.some((edge) => edge.from === connectFrom && edge.to === node.id);
+
+      if (connectFrom !== node.id && !isDuplicate) {
+        onChange({ ...diagram, edges: [...diagram.edges, { id: crypto.randomUUID(), from: connectFrom, to: node.id }] });
+      }
+
+      setConnectFrom(null);
+      return;
+    }
+
+    const point = toBoardPoint(event);
+
+    setSelectedId(node.id);
+    dragRef.current = { nodeId: node.id, offsetX: point.x - node.x, offsetY: point.y - node.y };
+    svgRef.current?.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: PointerEvent) => {
+    const drag = dragRef.current;
+
+    if (!drag) return;
+
+    const point = toBoardPoint(event);
+    const x = clamp(point.x - drag.offsetX, BOARD_WIDTH - NODE_WIDTH);
+    const y = clamp(point.y - drag.offsetY, BOARD_HEIGHT - NODE_HEIGHT);
+
+    onChange?.({ ...diagram, nodes: diagram.nodes.map((node) => (node.id === drag.nodeId ? { ...node, x, y } : node)) });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const toggleConnecting = () => {
+    setIsConnecting((connecting) => !connecting);
+    setConnectFrom(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 w-full">
+      {!isReadOnly && (
+        <div className="flex flex-row flex-wrap items-center gap-2 form">
+          <Input
+            className="input max-w-64"
+            placeholder={selectedId ? 'New label' : 'Component, e.g. Load Balancer'}
+            value={label}
+            onChange={(event) => setLabel(event.target.value)}
+            maxLength={60}
+          />
+          <Button type="button" className="btn-primary" onClick={handleAddBox}>Add Box</Button>
+          <Button type="button" className={isConnecting ? 'btn-primary' : 'btn-secondary'} onClick={toggleConnecting}>
+            {isConnecting ? (connectFrom ? 'Pick the target' : 'Pick the source') : 'Connect'}
+          </Button>
+          <Button type="button" className="btn-secondary" onClick={handleRename} disabled={!selectedId || !label.trim()}>
+            Rename
+          </Button>
+          <Button type="button" className="btn-secondary" onClick={handleDelete} disabled={!selectedId}>
+            Delete
+          </Button>
+        </div>
+      )}
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${BOARD_WIDTH} ${BOARD_HEIGHT}`}
+        className={cn('w-full rounded-2xl bg-dark-200 touch-none select-none', !isReadOnly && 'cursor-crosshair')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerDown={() => setSelectedId(null)}
+        role="img"
+        aria-label="System design diagram"
+      >
+        <defs>
+          <marker id="whiteboard-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor" />
+          </marker>
+        </defs>
+
+        {diagram.edges.map((edge) => {
+          const from = nodesById.get(edge.from);
+          const to = nodesById.get(edge.to);
+
+          if (!from || !to) return null;
+
+          const start = { x: from.x + NODE_WIDTH / 2, y: from.y + NODE_HEIGHT / 2 };
+          const end = boxBorderPoint(from, to);
+
+          return (
+            <g
+              key={edge.id}
+              className={cn('text-light-400', edge.id === selectedId && 'text-primary-200')}
+              onPointerDown={(event) => {
+                if (isReadOnly) return;
+                event.stopPropagation();
+                setSelectedId(edge.id);
+              }}
+            >
+              {/* a wider invisible line makes the arrow easier to click */}
+              <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke="transparent" strokeWidth={14} />
+              <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke="currentColor" strokeWidth={2} markerEnd="url(#whiteboard-arrow)" />
+              {edge.label && (
+                <text x={(start.x + end.x) / 2} y={(start.y + end.y) / 2 - 6} textAnchor="middle" className="fill-light-100 text-xs">
+                  {edge.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {diagram.nodes.map((node) => (
+          <g
+            key={node.id}
+            onPointerDown={(event) => handleNodePointerDown(event, node)}
+            className={cn(!isReadOnly && 'cursor-move')}
+          >
+            <rect
+              x={node.x}
+              y={node.y}
+              width={NODE_WIDTH}
+              height={NODE_HEIGHT}
+              rx={10}
+              className={cn(
+                'fill-dark-300 stroke-light-400',
+                (node.id === selectedId || node.id === connectFrom) && 'stroke-primary-200'
+              )}
+              strokeWidth={2}
+            />
+            <text x={node.x + NODE_WIDTH / 2} y={node.y + NODE_HEIGHT / 2} textAnchor="middle" dominantBaseline="middle" className="fill-light-100 text-sm">
+              {node.label.length > 18 ? `${node.label.slice(0, 17)}…` : node.label}
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      {!isReadOnly && (
+        <p className="text-sm text-light-400">
+          {selectedNode
+            ? `Selected: ${selectedNode.label}`
+            : selectedEdge
+              ? 'Selected an arrow, type a label and press Rename to describe it.'
+              : 'Add boxes for your components, drag them into place and connect them with arrows.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default Whiteboard;
@@ -82,7 +82,13 @@ export const generator: CreateWorkflowDTO =
       "url": "https://intervia-xi.vercel.app/api/vapi/generate",
       "headers": {
         "type": "object",
-        "properties": {}
+        "properties": {
+          "Authorization": {
+            "type": "string",
+            "value": "Bearer {{ token }}",
+            "description": ""
+          }
+        }
       },
       "body": {
         "type": "object",
@@ -227,36 +233,329 @@ End the conversation on a polite and positive note.
 
 };
 
-export const feedbackSchema = z.object({
-  totalScore: z.number(),
-  categoryScores: z.tuple([
-    z.object({
-      name: z.literal("Communication Skills"),
-      score: z.number(),
-      comment: z.string(),
-    }),
-    z.object({
-      name: z.literal("Technical Knowledge"),
-      score: z.number(),
-      comment: z.string(),
-    }),
-    z.object({
-      name: z.literal("Problem Solving"),
-      score: z.number(),
-      comment: z.string(),
+// Rubrics are edited by hand in Firestore, a document that doesn't fit is
+// skipped rather than breaking scoring for every interview.
+export const rubricSchema = z.object({
+  name: z.string().trim().min(1),
+  type: z.string().optional(),
+  role: z.string().optional(),
+  level: z.string().optional(),
+  categories: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1),
+        weight: z.number().finite().positive(),
+        description: z.string(),
+        anchors: z.array(
+          z.object({
+            score: z.number().min(0).max(100),
+            description: z.string(),
+          })
+        ),
+      })
+    )
+    .min(1)
+    .refine((categories) => new Set(categories.map((category) => category.name)).size === categories.length, {
+      message: "Category names must be unique",
     }),
-    z.object({
-      name: z.literal("Cultural Fit"),
-      score: z.number(),
-      comment: z.string(),
-    }),
-    z.object({
-      name: z.literal("Confidence and Clarity"),
-      score: z.number(),
-      comment: z.string(),
-    }),
-  ]),
-  strengths: z.array(z.string()),
-  areasForImprovement: z.array(z.string()),
-  finalAssessment: z.string(),
-});
\ No newline at end of file
+});
+
+export const defaultRubric: Rubric = {
+  id: "default",
+  name: "General Interview",
+  categories: [
+    {
+      name: "Communication Skills",
+      weight: 20,
+      description: "Clarity, articulation, structured responses.",
+      anchors: [
+        { score: 90, description: "Answers are concise, well structured and easy to follow." },
+        { score: 60, description: "Mostly clear but occasionally rambling or disorganised." },
+        { score: 30, description: "Hard to follow, answers lack structure." },
+      ],
+    },
+    {
+      name: "Technical Knowledge",
+      weight: 25,
+      description: "Understanding of key concepts for the role.",
+      anchors: [
+        { score: 90, description: "Accurate, in-depth knowledge with relevant examples." },
+        { score: 60, description: "Solid fundamentals with some gaps or inaccuracies." },
+        { score: 30, description: "Significant misunderstandings of core concepts." },
+      ],
+    },
+    {
+      name: "Problem Solving",
+      weight: 25,
+      description: "Ability to analyze problems and propose solutions.",
+      anchors: [
+        { score: 90, description: "Breaks problems down methodically and weighs alternatives." },
+        { score: 60, description: "Reaches reasonable solutions with some guidance." },
+        { score: 30, description: "Struggles to approach problems without help." },
+      ],
+    },
+    {
+      name: "Cultural Fit",
+      weight: 15,
+      description: "Alignment with company values and job role.",
+      anchors: [
+        { score: 90, description: "Motivation and working style clearly match the role." },
+        { score: 60, description: "Generally aligned with a few open questions." },
+        { score: 30, description: "Little evidence of alignment with the role." },
+      ],
+    },
+    {
+      name: "Confidence and Clarity",
+      weight: 15,
+      description: "Confidence in responses, engagement, and clarity.",
+      anchors: [
+        { score: 90, description: "Engaged and assured throughout the interview." },
+        { score: 60, description: "Confident on familiar topics, hesitant elsewhere." },
+        { score: 30, description: "Hesitant and disengaged for most of the interview." },
+      ],
+    },
+  ],
+};
+
+// Used for system design interviews unless a more specific rubric is stored.
+export const systemDesignRubric: Rubric = {
+  id: "system-design",
+  name: "System Design",
+  type: "System Design",
+  categories: [
+    {
+      name: "Requirements and Scope",
+      weight: 15,
+      description: "Clarifying functional and non-functional requirements and estimating scale before designing.",
+      anchors: [
+        { score: 90, description: "Pins down users, load, data size and constraints before drawing anything." },
+        { score: 60, description: "Asks about the main requirements but misses scale or constraints." },
+        { score: 30, description: "Starts designing without understanding the problem." },
+      ],
+    },
+    {
+      name: "Component Choices",
+      weight: 25,
+      description: "Picking suitable services, data stores, caches and queues and giving each a clear responsibility.",
+      anchors: [
+        { score: 90, description: "Every component on the diagram has a clear purpose and fits the requirements." },
+        { score: 60, description: "Reasonable components with some unclear responsibilities or odd choices." },
+        { score: 30, description: "Components are missing, redundant or unsuited to the problem." },
+      ],
+    },
+    {
+      name: "Scalability and Reliability",
+      weight: 25,
+      description: "How the design handles growth, hot spots and failures.",
+      anchors: [
+        { score: 90, description: "Addresses partitioning, replication, caching and failure handling where they matter." },
+        { score: 60, description: "Scales the obvious parts but leaves bottlenecks or single points of failure." },
+        { score: 30, description: "The design only works at small scale." },
+      ],
+    },
+    {
+      name: "Trade-offs",
+      weight: 20,
+      description: "Weighing alternatives and explaining why one was chosen over another.",
+      anchors: [
+        { score: 90, description: "Compares options and justifies decisions against the requirements." },
+        { score: 60, description: "Mentions alternatives without really weighing them." },
+        { score: 30, description: "Presents a single design with no reasoning behind it." },
+      ],
+    },
+    {
+      name: "Communication Skills",
+      weight: 15,
+      description: "Walking the interviewer through the design and keeping the diagram and explanation in step.",
+      anchors: [
+        { score: 90, description: "Explains the design clearly while drawing it, easy to follow throughout." },
+        { score: 60, description: "Mostly clear, but the diagram and explanation drift apart at times." },
+        { score: 30, description: "Hard to follow what is being built or why." },
+      ],
+    },
+  ],
+};
+
+export const MAX_QUESTION_COUNT = 20;
+
+export const interviewQuestionSchema = z.object({
+  text: z.string().describe("The question exactly as the interviewer should say it"),
+  category: z.enum(["technical", "behavioural"]),
+  difficulty: z.enum(["easy", "medium", "hard"]),
+  expectedKeyPoints: z.array(z.string()).describe("Points a strong answer should cover"),
+  estimatedAnswerTime: z.number().describe("Expected answer length in seconds"),
+});
+
+export const codingChallengeSchema = z.object({
+  title: z.string().describe("A short name for the problem"),
+  prompt: z.string().describe("The problem statement shown to the candidate, including the function signature and an example"),
+  functionName: z.string().describe("The name of the function the candidate has to implement"),
+  starterCode: z.string().describe("The function declared with its parameters and an empty body"),
+  tests: z
+    .array(
+      z.object({
+        args: z.string().describe("A JSON array of the arguments the function is called with"),
+        expected: z.string().describe("The JSON value the function must return for those arguments"),
+      })
+    )
+    .min(3)
+    .describe("Test cases covering normal input and edge cases"),
+});
+
+export const codingSubmissionSchema = z.object({
+  interviewId: z.string().min(1),
+  code: z.string().max(20000, "The solution is too long"),
+});
+
+export const interviewLevels = ["Junior", "Mid", "Senior"];
+
+export const interviewTypes = ["Technical", "Behavioural", "Mixed", "System Design"];
+
+export const interviewerVoices = [
+  { id: "ryan", label: "Ryan" },
+  { id: "sarah", label: "Sarah" },
+  { id: "andrea", label: "Andrea" },
+  { id: "phillip", label: "Phillip" },
+  { id: "paula", label: "Paula" },
+];
+
+export const profileSchema = z.object({
+  name: z.string().trim().min(3, "Name must have 3 or more characters"),
+  avatarUrl: z.string().trim().url("Avatar must be a valid image URL").or(z.literal("")),
+  targetRole: z.string().trim().max(100, "Target role is too long"),
+  experienceLevel: z.string(),
+  preferredTechStack: z.array(z.string().trim().min(1)),
+  interviewerVoice: z.string(),
+  speakingSpeed: z.number().min(0.5).max(1.5),
+  defaultQuestionCount: z.number().int().min(1).max(MAX_QUESTION_COUNT),
+});
+
+export const interviewVisibilities: InterviewVisibility[] = ["private", "link", "public"];
+
+// Canonical technologies. Aliases are compared after lowercasing and dropping
+// everything but letters, digits, "+" and "#", so "React.js", " react" and
+// "ReactJS" all resolve to React. Icons are paths in the devicon set.
+export const techCatalog: TechCatalogEntry[] = [
+  { name: "JavaScript", aliases: ["js", "es6", "ecmascript"], icon: "javascript/javascript-original.svg" },
+  { name: "TypeScript", aliases: ["ts"], icon: "typescript/typescript-original.svg" },
+  { name: "React", aliases: ["reactjs"], icon: "react/react-original.svg" },
+  { name: "React Native", aliases: ["reactnative", "rn"], icon: "react/react-original.svg" },
+  { name: "Next.js", aliases: ["next", "nextjs"], icon: "nextjs/nextjs-original.svg" },
+  { name: "Vue", aliases: ["vuejs", "vue3"], icon: "vuejs/vuejs-original.svg" },
+  { name: "Angular", aliases: ["angularjs"], icon: "angularjs/angularjs-original.svg" },
+  { name: "Svelte", aliases: ["sveltekit"], icon: "svelte/svelte-original.svg" },
+  { name: "HTML", aliases: ["html5"], icon: "html5/html5-original.svg" },
+  { name: "CSS", aliases: ["css3"], icon: "css3/css3-original.svg" },
+  { name: "Tailwind CSS", aliases: ["tailwind", "tailwindcss"], icon: "tailwindcss/tailwindcss-original.svg" },
+  { name: "Redux", aliases: ["reduxjs", "reduxtoolkit"], icon: "redux/redux-original.svg" },
+  { name: "GraphQL", aliases: ["gql"], icon: "graphql/graphql-plain.svg" },
+  { name: "Node.js", aliases: ["node", "nodejs"], icon: "nodejs/nodejs-original.svg" },
+  { name: "Express", aliases: ["expressjs"], icon: "express/express-original.svg" },
+  { name: "NestJS", aliases: ["nest", "nestjs"], icon: "nestjs/nestjs-original.svg" },
+  { name: "Python", aliases: ["py", "python3"], icon: "python/python-original.svg" },
+  { name: "Django", aliases: ["djangorestframework", "drf"], icon: "django/django-plain.svg" },
+  { name: "Flask", aliases: [], icon: "flask/flask-original.svg" },
+  { name: "FastAPI", aliases: [], icon: "fastapi/fastapi-original.svg" },
+  { name: "Java", aliases: [], icon: "java/java-original.svg" },
+  { name: "Spring", aliases: ["springboot", "springframework"], icon: "spring/spring-original.svg" },
+  { name: "Kotlin", aliases: [], icon: "kotlin/kotlin-original.svg" },
+  { name: "Go", aliases: ["golang"], icon: "go/go-original.svg" },
+  { name: "Rust", aliases: [], icon: "rust/rust-original.svg" },
+  { name: "C++", aliases: ["cpp", "cplusplus"], icon: "cplusplus/cplusplus-original.svg" },
+  { name: "C#", aliases: ["csharp"], icon: "csharp/csharp-original.svg" },
+  { name: ".NET", aliases: ["net", "dotnet", "netcore", "aspnet", "aspnetcore"], icon: "dot-net/dot-net-original.svg" },
+  { name: "PHP", aliases: [], icon: "php/php-original.svg" },
+  { name: "Laravel", aliases: [], icon: "laravel/laravel-original.svg" },
+  { name: "Ruby", aliases: [], icon: "ruby/ruby-original.svg" },
+  { name: "Ruby on Rails", aliases: ["rails", "ror"], icon: "rails/rails-plain.svg" },
+  { name: "Swift", aliases: [], icon: "swift/swift-original.svg" },
+  { name: "Flutter", aliases: [], icon: "flutter/flutter-original.svg" },
+  { name: "SQL", aliases: [] },
+  { name: "PostgreSQL", aliases: ["postgres", "psql"], icon: "postgresql/postgresql-original.svg" },
+  { name: "MySQL", aliases: [], icon: "mysql/mysql-original.svg" },
+  { name: "MongoDB", aliases: ["mongo"], icon: "mongodb/mongodb-original.svg" },
+  { name: "Redis", aliases: [], icon: "redis/redis-original.svg" },
+  { name: "Firebase", aliases: ["firestore"], icon: "firebase/firebase-plain.svg" },
+  { name: "AWS", aliases: ["amazonwebservices"], icon: "amazonwebservices/amazonwebservices-plain-wordmark.svg" },
+  { name: "Google Cloud", aliases: ["gcp", "googlecloudplatform"], icon: "googlecloud/googlecloud-original.svg" },
+  { name: "Azure", aliases: ["microsoftazure"], icon: "azure/azure-original.svg" },
+  { name: "Docker", aliases: [], icon: "docker/docker-original.svg" },
+  { name: "Kubernetes", aliases: ["k8s"], icon: "kubernetes/kubernetes-original.svg" },
+  { name: "Git", aliases: [], icon: "git/git-original.svg" },
+];
+
+export const createInterviewSchema = z.object({
+  role: z.string().trim().min(2, "Role must have 2 or more characters"),
+  level: z.string().min(1, "Pick an experience level"),
+  type: z.string().min(1, "Pick an interview type"),
+  techstack: z.array(z.string().trim().min(1)).min(1, "Pick at least one technology"),
+  amount: z.number().int().min(1, "Ask for at least 1 question").max(MAX_QUESTION_COUNT, `Ask for at most ${MAX_QUESTION_COUNT} questions`),
+  includeCodingChallenge: z.boolean(),
+});
+
+export const generateInterviewRequestSchema = z.object({
+  type: z.string().trim().min(1, "type is required"),
+  role: z.string().trim().min(1, "role is required"),
+  level: z.string().trim().min(1, "level is required"),
+  techstack: z.string().trim().min(1, "techstack is required"),
+  amount: z.coerce.number().int().min(1).max(MAX_QUESTION_COUNT),
+  userid: z.string().trim().min(1, "userid is required"),
+});
+
+export const chatInterviewRequestSchema = z.object({
+  interviewId: z.string().trim().min(1, "interviewId is required"),
+  attemptKey: z.string().trim().min(1, "attemptKey is required").max(100),
+  message: z.string().trim().min(1, "message is required").max(4000),
+});
+
+// Drafts are written from the browser every few turns, so their size is capped.
+export const sessionDraftSchema = z.object({
+  interviewId: z.string().trim().min(1),
+  transcript: z
+    .array(
+      z.object({
+        role: z.enum(["user", "system", "assistant"]),
+        content: z.string().max(10000),
+        timestamp: z.string().max(40),
+      })
+    )
+    .max(500, "The transcript is too long to save"),
+  startedAt: z.string().max(40).nullable(),
+});
+
+export const whiteboardDiagramSchema = z.object({
+  nodes: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        label: z.string().trim().max(60),
+        x: z.number().finite(),
+        y: z.number().finite(),
+      })
+    )
+    .max(100),
+  edges: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        from: z.string().min(1),
+        to: z.string().min(1),
+        label: z.string().trim().max(60).optional(),
+      })
+    )
+    .max(200),
+});
+
+export const editedQuestionsSchema = z
+  .array(interviewQuestionSchema.extend({ text: z.string().trim().min(1, "Questions cannot be empty") }))
+  .min(1, "An interview needs at least one question")
+  .max(MAX_QUESTION_COUNT, `An interview can have at most ${MAX_QUESTION_COUNT} questions`);
+
+export const questionScoreSchema = z.object({
+  question: z.string(),
+  verdict: z.enum(["answered", "partial", "skipped"]),
+  score: z.number(),
+  comment: z.string(),
+  modelAnswerHints: z.array(z.string()),
+  candidateQuotes: z.array(z.string()),
+});
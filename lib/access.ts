@@ -0,0 +1,24 @@
+type Viewer = Pick<User, 'id' | 'verifiedEmail'> | null;
+
+export const isInterviewOwner = (interview: Pick<Interview, 'userId'>, user: Viewer) =>
+  !!user && interview.userId === user.id;
+
+// Drafts and private interviews are owner-only. Link-shared interviews can be
+// opened by anyone signed in who has the URL, public ones are also listed.
+export function canViewInterview(interview: Pick<Interview, 'userId' | 'visibility' | 'finalized'>, user: Viewer): boolean {
+  if (!user) return false;
+  if (isInterviewOwner(interview, user)) return true;
+  if (!interview.finalized) return false;
+
+  return interview.visibility === 'public' || interview.visibility === 'link';
+}
+
+// Feedback is never public: only its owner and reviewers they invited by email.
+// Reviewers are matched on the verified address from their session.
+export function canViewFeedback(feedback: Pick<Feedback, 'userId' | 'sharedWith'>, user: Viewer): boolean {
+  if (!user) return false;
+  if (feedback.userId === user.id) return true;
+  if (!user.verifiedEmail) return false;
+
+  return !!feedback.sharedWith?.includes(user.verifiedEmail);
+}
@@ -2,13 +2,28 @@
 
 import { db, auth } from "@/firebase/admin";
 import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { cache } from "react";
+import { signGenerateToken } from "@/lib/generate-token";
+import { isAllowedEmailDomain } from "@/lib/email";
 
 const ONE_WEEK = 60 * 60 * 24 * 7;
 
+// The uid and email come from the verified ID token, not from the client, so
+// the domain allowlist holds for password and federated sign ups alike.
 export async function signUp(params: SignUpParams) {
-  const { uid, name, email } = params;
+  const { idToken, name } = params;
 
   try {
+    const { uid, email } = await auth.verifyIdToken(idToken);
+
+    if (!email || !isAllowedEmailDomain(email)) {
+      return {
+        success: false,
+        message: "Sign ups from this email domain are not allowed"
+      }
+    }
+
     const userRecord = await db.collection('users').doc(uid).get();
 
     if (userRecord.exists) {
@@ -54,6 +69,19 @@ export async function signIn(params: SignInParams) {
       }
     }
 
+    const decodedToken = await auth.verifyIdToken(idToken);
+
+    // Only password accounts have to confirm their address here. Google
+    // verifies it itself, and GitHub addresses always come back unverified,
+    // so federated sign ins rely on the provider's own checks.
+    if (decodedToken.firebase.sign_in_provider === 'password' && !decodedToken.email_verified) {
+      return {
+        success: false,
+        needsVerification: true,
+        message: "Verify your email before signing in"
+      }
+    }
+
     await setSessionCookie(idToken)
 
     return {
@@ -84,7 +112,8 @@ export async function setSessionCookie(idToken: string) {
   })
 }
 
-export async function getCurrentUser(): Promise<User | null> {
+// verified once per request, also rejects sessions whose tokens were revoked
+const getSessionClaims = cache(async () => {
   const cookieStore = await cookies();
 
   const sessionCookie = cookieStore.get('session')?.value;
@@ -92,8 +121,51 @@ export async function getCurrentUser(): Promise<User | null> {
   if (!sessionCookie) return null;
 
   try {
-    const decodedClaims = await auth.verifySessionCookie(sessionCookie, true)
+    return await auth.verifySessionCookie(sessionCookie, true);
+  } catch {
+    return null;
+  }
+});
+
+// Clearing the cookie ends this browser's session. Revoking refresh tokens
+// invalidates every session cookie issued to the user, so it's only done when
+// signing out of all devices.
+export async function signOut(params: SignOutParams = {}) {
+  const { allDevices = false } = params;
+
+  const cookieStore = await cookies();
+  const decodedClaims = await getSessionClaims();
+
+  cookieStore.delete('session');
+
+  if (!allDevices || !decodedClaims) {
+    return {
+      success: true
+    }
+  }
+
+  try {
+    await auth.revokeRefreshTokens(decodedClaims.uid);
+
+    return {
+      success: true
+    }
+  } catch (e) {
+    console.error('Error revoking sessions', e);
+
+    return {
+      success: false,
+      message: "Signed out here, but other devices could not be signed out"
+    }
+  }
+}
+
+export async function getCurrentUser(): Promise<User | null> {
+  const decodedClaims = await getSessionClaims();
+
+  if (!decodedClaims) return null;
 
+  try {
     const userRecord = await db.
       collection('users')
       .doc(decodedClaims.uid)
@@ -101,9 +173,12 @@ export async function getCurrentUser(): Promise<User | null> {
 
     if (!userRecord.exists) return null;
 
+    // the users document is written by the client, so access checks use the
+    // address from the session instead, and only once it has been verified
     return {
       ...userRecord.data(),
       id: userRecord.id,
+      verifiedEmail: decodedClaims.email_verified && decodedClaims.email ? decodedClaims.email.toLowerCase() : null,
     } as User;
 
   } catch (e) {
@@ -111,8 +186,56 @@ export async function getCurrentUser(): Promise<User | null> {
   }
 }
 
+export async function requireUser(): Promise<User> {
+  const user = await getCurrentUser();
+
+  if (!user) redirect('/api/auth/clear-session');
+
+  return user;
+}
+
+export async function getSessionExpiry(): Promise<number | null> {
+  const decodedClaims = await getSessionClaims();
+
+  return decodedClaims ? decodedClaims.exp * 1000 : null;
+}
+
+// Swaps a fresh ID token for a new session cookie before the current one
+// expires, as long as it belongs to the same user.
+export async function refreshSession(idToken: string) {
+  const decodedClaims = await getSessionClaims();
+
+  try {
+    const decodedToken = await auth.verifyIdToken(idToken, true);
+
+    if (!decodedClaims || decodedToken.uid !== decodedClaims.uid) {
+      return {
+        success: false
+      }
+    }
+
+    await setSessionCookie(idToken);
+
+    return {
+      success: true
+    }
+  } catch {
+    return {
+      success: false
+    }
+  }
+}
+
 export async function isAuthenticated() {
   const user = await getCurrentUser();
 
   return !!user;
 }
+
+export async function getGenerateToken(): Promise<string | null> {
+  const user = await getCurrentUser();
+
+  if (!user) return null;
+
+  return signGenerateToken(user.id);
+}
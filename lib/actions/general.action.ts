@@ -1,65 +1,578 @@
 'use server';
 
-import { feedbackSchema } from "@/constants";
 import { db } from "@/firebase/admin";
+import { FieldPath, FieldValue, type DocumentReference, type DocumentSnapshot, type Query } from "firebase-admin/firestore";
 import { generateObject } from "ai";
-import { google } from "@ai-sdk/google";
+import { getModel } from "@/lib/llm";
+import { alignQuestionScores, canRetryFeedback } from "@/lib/feedback";
+import { assessTranscript } from "@/lib/transcript";
+import { describeRunResult, lastSubmittedCode, toPublicChallenge } from "@/lib/coding";
+import { chatDocId } from "@/lib/chat";
+import { runHiddenTests, transpileSubmission } from "@/lib/code-sandbox";
+import { cleanDiagram, describeDiagram, hasDiagram } from "@/lib/whiteboard";
+import { buildFeedbackSchema, buildRubricPrompt, computeTotalScore, selectRubric } from "@/lib/rubric";
+import { normalizeQuestions, sanitizeForVoice } from "@/lib/questions";
+import { generateInterview, generateQuestion } from "@/lib/interview";
+import { matchesText, normalizeLevel, normalizeTerm, normalizeType, techSearchTerms } from "@/lib/search";
+import { getCurrentUser } from "@/lib/actions/auth.action";
+import { canViewFeedback, canViewInterview, isInterviewOwner } from "@/lib/access";
+import { codingSubmissionSchema, createInterviewSchema, editedQuestionsSchema, interviewVisibilities, rubricSchema, sessionDraftSchema, whiteboardDiagramSchema } from "@/constants";
+import { z } from "zod";
+import { after } from "next/server";
 
+const toInterview = (doc: DocumentSnapshot): Interview => {
+  const data = doc.data();
 
-export async function getInterviewByUserId(userId: string): Promise<Interview[] | null>{
-  const interviews = await db
+  return {
+    id: doc.id,
+    ...data,
+    questions: normalizeQuestions(data?.questions),
+    // interviews from before visibility existed were always listed
+    visibility: data?.visibility ?? 'public',
+    codingChallenge: data?.codingChallenge ? toPublicChallenge(data.codingChallenge) : null,
+  } as Interview;
+};
+
+const toFeedback = (doc: DocumentSnapshot): Feedback => {
+  const feedbackData = doc.data()!;
+
+  return {
+    id: doc.id,
+    ...feedbackData,
+
+    createdAt: feedbackData.createdAt?.toDate ? feedbackData.createdAt.toDate().toISOString() : feedbackData.createdAt
+  } as Feedback;
+};
+
+async function fetchInterview(id: string): Promise<Interview | null> {
+  const interview = await db
+    .collection('interviews')
+    .doc(id)
+    .get();
+
+  if (!interview.exists) return null;
+
+  return toInterview(interview);
+}
+
+// The full challenge with its hidden tests, for running submissions on the server only.
+async function fetchCodingChallenge(interviewId: string): Promise<CodingChallenge | null> {
+  const interview = await db.collection('interviews').doc(interviewId).get();
+
+  return interview.data()?.codingChallenge ?? null;
+}
+
+// Cursors are the id of the last interview on the previous page, so pages stay
+// stable even when several interviews share a createdAt timestamp.
+async function fetchInterviewPage(query: Query, cursor: string | undefined, limit: number) {
+  if (cursor) {
+    const cursorDoc = await db.collection('interviews').doc(cursor).get();
+
+    if (cursorDoc.exists) query = query.startAfter(cursorDoc);
+  }
+
+  const snapshot = await query.limit(limit).get();
+
+  return {
+    docs: snapshot.docs,
+    nextCursor: snapshot.size === limit ? snapshot.docs[snapshot.size - 1].id : null,
+  };
+}
+
+export async function getInterviewByUserId(userId: string, params: GetInterviewsParams = {}): Promise<InterviewPage>{
+  const { finalized, cursor, limit = 12 } = params;
+
+  const user = await getCurrentUser();
+  const isOwner = !!user && user.id === userId;
+
+  // other people only see what this user has published, and drafts never are
+  if (!isOwner && finalized === false) return { interviews: [], nextCursor: null };
+
+  let query = db
       .collection('interviews')
-      .where('userId', '==', userId)
-      .orderBy('createdAt', 'desc')
-      .get();
+      .where('userId', '==', userId);
+
+  if (!isOwner) {
+    query = query.where('finalized', '==', true).where('visibility', '==', 'public');
+  } else if (finalized !== undefined) {
+    query = query.where('finalized', '==', finalized);
+  }
+
+  const { docs, nextCursor } = await fetchInterviewPage(query.orderBy('createdAt', 'desc'), cursor, limit);
 
-      return interviews.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Interview[];
+      return {
+        interviews: docs.map(toInterview),
+        nextCursor,
+      };
 }
 
-export async function getLatestInterviews(params: GetLatestInterviewsParams): Promise<Interview[] | null>{
-  const { userId, limit = 20} = params;
+// Firestore can't combine `!=` on userId with ordering by createdAt, so the
+// viewer's own interviews are dropped after the query. A page can therefore
+// come back a little short, the cursor still moves past everything read.
+export async function getLatestInterviews(params: GetLatestInterviewsParams): Promise<InterviewPage>{
+  const { userId, cursor, limit = 12 } = params;
 
-  const interviews = await db
+  const query = db
       .collection('interviews')
-      .orderBy('createdAt', 'desc')
       .where('finalized', '==', true)
-      .where('userId', '!=', userId)
-      .limit(limit)
+      .where('visibility', '==', 'public')
+      .orderBy('createdAt', 'desc');
+
+  const { docs, nextCursor } = await fetchInterviewPage(query, cursor, limit);
+
+      return {
+        interviews: docs
+          .map(toInterview)
+          .filter((interview) => interview.userId !== userId),
+        nextCursor,
+      };
+}
+
+const SEARCH_WINDOW = 200;
+
+// Only listed interviews are searched. Visibility, level, type, tech stack and
+// the sort order run in Firestore on the normalized search fields, which older
+// interviews only have once the backfill script has run. Role and free text
+// are substring matches, so they are applied to the first SEARCH_WINDOW
+// results of the query, and the result says when that window was full.
+export async function searchInterviews(params: SearchInterviewsParams): Promise<InterviewSearchResult>{
+  const { text, role, level, type, techstack = [], sort = 'recent' } = params;
+
+  const user = await getCurrentUser();
+
+  if (!user) return { interviews: [], isPartial: false };
+
+  let query = db
+      .collection('interviews')
+      .where('finalized', '==', true)
+      .where('visibility', '==', 'public');
+
+  if (level) query = query.where('search.level', '==', normalizeLevel(level));
+  if (type) query = query.where('search.type', '==', normalizeType(type));
+
+  // array-contains-any takes at most 30 values
+  const techTerms = techSearchTerms(techstack).slice(0, 30);
+  if (techTerms.length) query = query.where('search.techstack', 'array-contains-any', techTerms);
+
+  const interviews = await query
+      .orderBy(sort === 'popular' ? 'attemptCount' : 'createdAt', 'desc')
+      .limit(SEARCH_WINDOW)
       .get();
 
-      return interviews.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Interview[];
+  const roleTerm = role ? normalizeTerm(role) : '';
+  const hasTextFilters = !!roleTerm || !!text?.trim();
+
+  const results = interviews.docs
+      .map(toInterview)
+      .filter((interview) => !roleTerm || normalizeTerm(interview.role).includes(roleTerm))
+      .filter((interview) => !text || matchesText(interview, text));
+
+  return {
+    interviews: results.slice(0, 50),
+    isPartial: hasTextFilters && interviews.size === SEARCH_WINDOW,
+  };
 }
 
-export async function getInterviewById(id: string): Promise<Interview | null>{
+// Reviewers of a shared feedback can see the interview it belongs to even when
+// the interview itself is private, so the feedback page can be rendered for them.
+export async function getInterviewById(id: string, viaFeedbackId?: string): Promise<Interview | null>{
+    const [user, interview] = await Promise.all([
+      getCurrentUser(),
+      fetchInterview(id),
+    ]);
 
-    const interviews = await db
-        .collection('interviews')
-        .doc(id)
-        .get();
-  
-        return interviews.data() as Interview | null;
+    if (!interview) return null;
+    if (canViewInterview(interview, user)) return interview;
+
+    if (viaFeedbackId) {
+      const feedback = await getFeedbackById(viaFeedbackId);
+
+      if (feedback?.interviewId === id) return interview;
+    }
+
+    return null;
   }
 
-  export async function createFeedback(params: CreateFeedbackParams){
-    const { interviewId, userId, transcript} = params;
+  // Loads many interviews with one query per 30 ids, leaving out any the user can't view.
+  export async function getInterviewsByIds(ids: string[]): Promise<Interview[]> {
+    const user = await getCurrentUser();
+
+    if (!user || ids.length === 0) return [];
+
+    const chunks = Array.from({ length: Math.ceil(ids.length / 30) }, (_, index) =>
+      ids.slice(index * 30, index * 30 + 30)
+    );
+
+    const snapshots = await Promise.all(
+      chunks.map((chunk) =>
+        db
+          .collection('interviews')
+          .where(FieldPath.documentId(), 'in', chunk)
+          .get()
+      )
+    );
+
+    return snapshots
+      .flatMap((snapshot) => snapshot.docs.map(toInterview))
+      .filter((interview) => canViewInterview(interview, user));
+  }
+
+  export async function createInterview(params: CreateInterviewParams) {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return {
+        success: false,
+        message: "Sign in to create an interview"
+      }
+    }
+
+    const parsed = createInterviewSchema.safeParse(params);
+
+    if (!parsed.success) {
+      return {
+        success: false,
+        message: parsed.error.errors[0]?.message ?? "Invalid interview details"
+      }
+    }
+
+    try {
+      const interviewId = await generateInterview({ ...parsed.data, userId: user.id });
+
+      return {
+        success: true,
+        interviewId
+      }
+    } catch (e) {
+      console.error('Error Creating Interview!', e)
+
+      return {
+        success: false,
+        message: "Interview generation failed, please try again"
+      }
+    }
+  }
+
+  async function getOwnedInterview(interviewId: string): Promise<Interview | null> {
+    const [user, interview] = await Promise.all([
+      getCurrentUser(),
+      fetchInterview(interviewId),
+    ]);
+
+    if (!interview || !isInterviewOwner(interview, user)) return null;
+
+    return interview;
+  }
+
+  export async function submitCodingSolution(params: SubmitCodingSolutionParams) {
+    const parsed = codingSubmissionSchema.safeParse(params);
+
+    if (!parsed.success) {
+      return {
+        success: false,
+        message: parsed.error.errors[0]?.message ?? "Invalid solution"
+      }
+    }
+
+    const { interviewId, code } = parsed.data;
+
+    const [user, interview, challenge] = await Promise.all([
+      getCurrentUser(),
+      fetchInterview(interviewId),
+      fetchCodingChallenge(interviewId),
+    ]);
+
+    if (!user || !interview || !challenge || !canViewInterview(interview, user)) {
+      return {
+        success: false,
+        message: "Interview not found"
+      }
+    }
+
+    try {
+      const result = await runHiddenTests(challenge, code);
+
+      return {
+        success: true,
+        result
+      }
+    } catch (e) {
+      console.error('Error Running Solution!', e)
+
+      return {
+        success: false,
+        message: "Could not run the solution, please try again"
+      }
+    }
+  }
+
+  // The browser runs TypeScript submissions too, compiled here with the
+  // installed compiler rather than one downloaded into the page.
+  export async function transpileSolution(params: TranspileSolutionParams) {
+    const user = await getCurrentUser();
+    const code = codingSubmissionSchema.shape.code.safeParse(params.code);
+
+    if (!user || !code.success) {
+      return {
+        success: false,
+        message: code.success ? "Sign in to run your code" : code.error.errors[0]?.message
+      }
+    }
+
+    return {
+      success: true,
+      code: transpileSubmission(code.data, params.language)
+    }
+  }
+
+  export async function updateInterviewVisibility(params: UpdateInterviewVisibilityParams) {
+    const { interviewId, visibility } = params;
+
+    const interview = await getOwnedInterview(interviewId);
+
+    if (!interview || !interviewVisibilities.includes(visibility)) {
+      return {
+        success: false,
+        message: "Interview not found"
+      }
+    }
+
+    await db.collection('interviews').doc(interviewId).update({ visibility });
+
+    return {
+      success: true
+    }
+  }
+
+  export async function updateInterviewQuestions(params: UpdateInterviewQuestionsParams) {
+    const { interviewId, questions, finalize = false } = params;
+
+    const interview = await getOwnedInterview(interviewId);
+
+    if (!interview) {
+      return {
+        success: false,
+        message: "Interview not found"
+      }
+    }
+
+    const parsed = editedQuestionsSchema.safeParse(questions);
+
+    if (!parsed.success) {
+      return {
+        success: false,
+        message: parsed.error.errors[0]?.message ?? "Invalid questions"
+      }
+    }
+
+    try {
+      await db.collection('interviews').doc(interviewId).update({
+        questions: parsed.data.map((question) => ({ ...question, text: sanitizeForVoice(question.text) })),
+        // only the owner's confirmation publishes a draft
+        ...(finalize && { finalized: true }),
+      });
+
+      return {
+        success: true
+      }
+    } catch (e) {
+      console.error('Error Updating Interview!', e)
+
+      return {
+        success: false,
+        message: "Could not save the interview"
+      }
+    }
+  }
+
+  export async function regenerateQuestion(params: RegenerateQuestionParams) {
+    const { interviewId, questions, index } = params;
+
+    const interview = await getOwnedInterview(interviewId);
+
+    if (!interview) {
+      return {
+        success: false,
+        message: "Interview not found"
+      }
+    }
+
+    try {
+      const question = await generateQuestion(
+        interview,
+        questions,
+        index === undefined ? undefined : questions[index]
+      );
+
+      return {
+        success: true,
+        question
+      }
+    } catch (e) {
+      console.error('Error Generating Question!', e)
+
+      return {
+        success: false,
+        message: "Could not generate a question, please try again"
+      }
+    }
+  }
+
+  // Rubrics change rarely, every scoring job reading the whole collection would not.
+  const RUBRIC_CACHE_TTL = 5 * 60 * 1000;
+  let rubricCache: { rubrics: Rubric[]; loadedAt: number } | null = null;
+
+  async function fetchRubrics(): Promise<Rubric[]> {
+    if (rubricCache && Date.now() - rubricCache.loadedAt < RUBRIC_CACHE_TTL) return rubricCache.rubrics;
+
+    const snapshot = await db.collection('rubrics').get();
+
+    const rubrics = snapshot.docs.flatMap((doc) => {
+      const parsed = rubricSchema.safeParse(doc.data());
+
+      if (!parsed.success) {
+        console.error(`Skipping invalid rubric ${doc.id}!`, parsed.error.flatten());
+        return [];
+      }
+
+      return [{ id: doc.id, ...parsed.data }];
+    });
+
+    rubricCache = { rubrics, loadedAt: Date.now() };
+
+    return rubrics;
+  }
+
+  async function getRubricForInterview(interview: Interview | null): Promise<Rubric> {
+    return selectRubric(await fetchRubrics(), interview);
+  }
+
+  // Diagrams come straight from the browser, a malformed one is dropped rather than stored.
+  const parseDiagram = (diagram: WhiteboardDiagram | null | undefined): WhiteboardDiagram | null => {
+    const parsed = whiteboardDiagramSchema.safeParse(diagram);
+
+    return parsed.success ? cleanDiagram(parsed.data) : null;
+  };
+
+  // One unfinished attempt per user and interview, overwritten as the call goes on.
+  const draftRef = (userId: string, interviewId: string) =>
+    db.collection('drafts').doc(`${userId}_${interviewId}`);
+
+  // Placeholders so pages listing attempts never read missing scores while
+  // the job is still running or when it never produced any.
+  const unscoredFields = {
+    totalScore: 0,
+    categoryScores: [],
+    questionScores: [],
+    strengths: [],
+    areasForImprovement: [],
+    finalAssessment: '',
+  };
+
+  // Only the job holding the claim may write the outcome, a stale job that was
+  // retried in the meantime finishes without touching the newer one. The
+  // attempt counts towards popularity the first time it completes, never again.
+  async function finishFeedbackJob(feedbackRef: DocumentReference, jobId: string, fields: Record<string, unknown>) {
+    await db.runTransaction(async (transaction) => {
+      const feedbackDoc = await transaction.get(feedbackRef);
+      const { interviewId, status, attemptCounted } = feedbackDoc.data() ?? {};
+
+      if (status !== 'processing' || feedbackDoc.data()?.jobId !== jobId) return;
+
+      const countAttempt = fields.status === 'complete' && !attemptCounted;
+
+      transaction.update(feedbackRef, { ...fields, ...(countAttempt && { attemptCounted: true }), updatedAt: new Date().toISOString() });
+
+      // popularity for search, counted per attempt rather than per candidate
+      if (countAttempt) {
+        transaction.update(db.collection('interviews').doc(interviewId), { attemptCount: FieldValue.increment(1) });
+      }
+    });
+  }
+
+  // Runs after the response has been sent, so the candidate doesn't wait on
+  // the model and closing the tab doesn't lose the feedback. `after` only
+  // lasts as long as the server instance: a job cut off by a deploy or a
+  // function timeout stays pending, and canRetryFeedback lets the candidate
+  // start it again once it has been quiet for FEEDBACK_JOB_TIMEOUT.
+  async function scoreFeedback(feedbackId: string) {
+    const feedbackRef = db.collection('feedback').doc(feedbackId);
+    const jobId = crypto.randomUUID();
+
+    // claimed in a transaction, so two jobs for one attempt never both run
+    const claimed = await db.runTransaction(async (transaction) => {
+      const feedbackDoc = await transaction.get(feedbackRef);
+
+      if (feedbackDoc.data()?.status !== 'pending') return null;
+
+      transaction.update(feedbackRef, { status: 'processing', jobId, updatedAt: new Date().toISOString() });
+
+      return feedbackDoc.data() ?? null;
+    }).catch((e) => {
+      console.error('Error Claiming Feedback!', e)
+      return null;
+    });
+
+    if (!claimed) return;
+
+    const { interviewId, sessionId } = claimed;
+
+    try {
+      const [interview, codingChallenge, sessionDoc] = await Promise.all([
+        fetchInterview(interviewId),
+        fetchCodingChallenge(interviewId),
+        db.collection('sessions').doc(sessionId).get(),
+      ]);
+
+      if (!interview || !sessionDoc.exists) throw new Error('Interview or session not found');
+
+      const transcript: TranscriptTurn[] = sessionDoc.data()?.transcript ?? [];
+      const diagram: WhiteboardDiagram | null = sessionDoc.data()?.diagram ?? null;
+      // sessions from before chat mode were all voice calls
+      const mode: InterviewMode = sessionDoc.data()?.mode ?? 'voice';
+      const questions = interview.questions;
 
-    try{
       const formattedTranscript = transcript
         .map((sentence:{ role: string; content: string; })=>(
           `- ${sentence.role}: ${sentence.content}\n`
         )) .join('');
 
-        const {object: { totalScore, categoryScores, strengths, areasForImprovement, finalAssessment}} = await generateObject({
-          model: google('gemini-2.0-flash-001', {
-            structuredOutputs: false,
-          }),
-            schema: feedbackSchema,
+      const formattedQuestions = questions
+        .map((question, index) => {
+          const keyPoints = question.expectedKeyPoints.length
+            ? ` (expected key points: ${question.expectedKeyPoints.join('; ')})`
+            : '';
+
+          return `${index + 1}. ${question.text}${keyPoints}`;
+        })
+        .join('\n');
+
+      // the pass count in the transcript came from the browser, so the last
+      // submission is run against the hidden tests again here
+      const submittedCode = codingChallenge ? lastSubmittedCode(transcript) : null;
+      const submissionResult = codingChallenge && submittedCode !== null
+        ? describeRunResult(await runHiddenTests(codingChallenge, submittedCode), codingChallenge.tests.length)
+        : 'Nothing was submitted, count it against the candidate.';
+
+      // a chat attempt had no editor, the challenge is only assessed when it could be submitted
+      const codingContext = codingChallenge && (mode === 'voice' || submittedCode !== null)
+        ? `The interview also included a coding challenge, "${codingChallenge.title}":
+        ${codingChallenge.prompt}
+        The candidate's submissions appear in the transcript with their code. Their last submission was run against the hidden tests on the server: ${submissionResult}
+        Judge correctness only from that result and ignore any test results claimed in the transcript. Weigh the approach and readability of the code in the most relevant category.`
+        : '';
+
+      const diagramContext = hasDiagram(diagram)
+        ? `The candidate drew this system design diagram on a whiteboard while talking:
+        ${describeDiagram(diagram)}
+        Assess the design from both the diagram and what was said: whether it scales, whether the trade-offs were explained, and whether each component is a sensible choice for the requirements. Point out missing components, single points of failure and parts of the diagram that were never explained.`
+        : '';
+
+      const rubric = await getRubricForInterview(interview);
+
+        const {object: { categoryScores, questionScores, strengths, areasForImprovement, finalAssessment}} = await generateObject({
+          model: getModel(),
+            schema: buildFeedbackSchema(rubric),
             prompt: `
         You are an AI interviewer analyzing a mock interview. Your task is to evaluate the candidate based on structured categories. Be thorough and detailed in your analysis. Don't be lenient with the candidate. If there are mistakes or areas for improvement, point them out.
         Also, once the asked question is answered properly do not keep on revolving around the same question.
@@ -67,32 +580,154 @@ export async function getInterviewById(id: string): Promise<Interview | null>{
         ${formattedTranscript}
 
         Please score the candidate from 0 to 100 in the following areas. Do not add categories other than the ones provided:
-        - **Communication Skills**: Clarity, articulation, structured responses.
-        - **Technical Knowledge**: Understanding of key concepts for the role.
-        - **Problem-Solving**: Ability to analyze problems and propose solutions.
-        - **Cultural & Role Fit**: Alignment with company values and job role.
-        - **Confidence & Clarity**: Confidence in responses, engagement, and clarity.
+        Use the scoring anchors listed under each category as reference points.
+        ${buildRubricPrompt(rubric)}
+
+        The interview had the following questions, in this order:
+        ${formattedQuestions}
+        ${codingContext}
+        ${diagramContext}
+
+        For each question above, in the same order, find the part of the transcript where it was asked and answered and return one entry in questionScores with:
+        - **question**: The question text exactly as listed above.
+        - **verdict**: "answered" if fully addressed, "partial" if only partly or vaguely addressed, "skipped" if never answered or never asked.
+        - **score**: 0 to 100 for that answer alone. A skipped question scores 0.
+        - **comment**: What was good or missing in the answer.
+        - **modelAnswerHints**: Key points a strong answer would have covered.
+        - **candidateQuotes**: Short verbatim quotes from the candidate's answer. Leave empty if skipped.
         `,
 system:
         "You are a professional interviewer analyzing a mock interview. Your task is to evaluate the candidate based on structured categories. Also keep in context that if the user skips a question, then deduct the points to be rated accordingly of how many questions there are. If the user skips all the questions then, rating is automatically zero, if it skips a few then rate accordingly. The highest possible rating is 100 and the lowest is 0.",
         });
 
-        const feedback = await db.collection('feedback').add({
-          interviewId,
-          userId,
-          totalScore,
+        await finishFeedbackJob(feedbackRef, jobId, {
+          totalScore: computeTotalScore(rubric, categoryScores),
           categoryScores,
+          rubricId: rubric.id,
+          questionScores: alignQuestionScores(questions.map((question) => question.text), questionScores),
           strengths,
           areasForImprovement,
           finalAssessment,
-          createdAt: new Date().toISOString()
+          status: 'complete',
+          error: FieldValue.delete(),
         })
+    } catch (e) {
+      console.error('Error Generating Feedback!', e)
+
+      await finishFeedbackJob(feedbackRef, jobId, {
+        status: 'failed',
+        error: 'We could not score this attempt.',
+      }).catch(() => undefined);
+    }
+  }
+
+  export async function createFeedback(params: CreateFeedbackParams){
+    const { interviewId, userId, idempotencyKey, startedAt, endedAt, endReason = 'candidate-ended', mode = 'voice' } = params;
+    const diagram = parseDiagram(params.diagram);
+
+    const [user, interview, chatDoc] = await Promise.all([
+      getCurrentUser(),
+      fetchInterview(interviewId),
+      mode === 'chat' ? db.collection('chats').doc(chatDocId(userId, idempotencyKey)).get() : null,
+    ]);
+
+    // feedback can only be created by the signed in candidate, for themselves
+    if (!user || user.id !== userId || !interview || !canViewInterview(interview, user)) {
+      return {success: false}
+    }
 
-        return{
+    // a chat is scored from the conversation the server stored, never the browser's copy
+    const transcript: CreateFeedbackParams['transcript'] = chatDoc
+      ? (chatDoc.data()?.interviewId === interviewId ? chatDoc.data()?.messages ?? [] : [])
+      : params.transcript;
+
+    // every attempt is kept as a session, even when scoring fails
+    const now = new Date().toISOString();
+    const sessionStart = startedAt || transcript[0]?.timestamp || now;
+    const sessionEnd = endedAt || now;
+    const sessionRef = db.collection('sessions').doc();
+
+    // the same key always maps to the same document, so ending a call twice
+    // finds the attempt that was already saved instead of adding another
+    const feedbackRef = db.collection('feedback').doc(`${userId}_${idempotencyKey}`);
+
+    const sessionTranscript = transcript.map((turn) => ({
+      role: turn.role,
+      content: turn.content,
+      timestamp: turn.timestamp || sessionStart,
+    }));
+
+    const assessment = assessTranscript(sessionTranscript, interview.questions.map((question) => question.text));
+
+    try{
+      const existing = await db.runTransaction(async (transaction) => {
+        const feedbackDoc = await transaction.get(feedbackRef);
+
+        if (feedbackDoc.exists) return toFeedback(feedbackDoc);
+
+        // too little to score: keep the attempt and skip the model
+        transaction.create(feedbackRef, assessment.isComplete
+          ? { interviewId, userId, ...unscoredFields, status: 'pending', sessionId: sessionRef.id, createdAt: now }
+          : {
+              interviewId,
+              userId,
+              ...unscoredFields,
+              finalAssessment: 'This attempt was too short to score.',
+              status: 'incomplete',
+              assessment,
+              sessionId: sessionRef.id,
+              createdAt: now
+            });
+
+        transaction.set(sessionRef, {
+          interviewId,
+          userId,
+          feedbackId: feedbackRef.id,
+          transcript: sessionTranscript,
+          startedAt: sessionStart,
+          endedAt: sessionEnd,
+          duration: Math.max(0, Math.round((Date.parse(sessionEnd) - Date.parse(sessionStart)) / 1000)),
+          endReason,
+          mode: mode === 'chat' ? 'chat' : 'voice',
+          diagram,
+          createdAt: now,
+        });
+
+        return null;
+      });
+
+      if (existing) {
+        return {
           success: true,
-          feedbackId: feedback.id
+          feedbackId: existing.id,
+          sessionId: existing.sessionId,
+          status: existing.status ?? 'complete'
         }
+      }
+
+      if (!assessment.isComplete) {
+        // the transcript stays a draft so the candidate can continue where they stopped
+        await draftRef(userId, interviewId).set({
+          interviewId,
+          userId,
+          transcript: sessionTranscript,
+          startedAt: sessionStart,
+          diagram,
+          updatedAt: now,
+        });
+      } else {
+        // the session holds the transcript from here on, retries score it from there
+        await draftRef(userId, interviewId).delete();
+
+        after(() => scoreFeedback(feedbackRef.id));
+      }
 
+      return {
+        success: true,
+        feedbackId: feedbackRef.id,
+        sessionId: sessionRef.id,
+        status: (assessment.isComplete ? 'pending' : 'incomplete') as FeedbackStatus
+      }
     } catch (e){
       console.error('Error Saving Feedback!', e)
 
@@ -100,9 +735,64 @@ system:
     }
   }
 
+  export async function retryFeedback(feedbackId: string){
+    const [user, feedbackDoc] = await Promise.all([
+      getCurrentUser(),
+      db.collection('feedback').doc(feedbackId).get(),
+    ]);
+
+    if (!user || !feedbackDoc.exists) return {success: false, message: "Feedback not found"};
+
+    const feedback = toFeedback(feedbackDoc);
+
+    if (feedback.userId !== user.id) return {success: false, message: "Feedback not found"};
+
+    if (!canRetryFeedback(feedback)) {
+      return {
+        success: false,
+        message: "This feedback is still being generated"
+      }
+    }
+
+    try {
+      // checked again inside the transaction, so double clicks and two open
+      // tabs queue a single job between them
+      const requeued = await db.runTransaction(async (transaction) => {
+        const current = await transaction.get(feedbackDoc.ref);
+
+        if (!canRetryFeedback(toFeedback(current))) return false;
+
+        transaction.update(feedbackDoc.ref, { status: 'pending', jobId: FieldValue.delete(), error: FieldValue.delete(), updatedAt: new Date().toISOString() });
+
+        return true;
+      });
+
+      if (!requeued) {
+        return {
+          success: false,
+          message: "This feedback is still being generated"
+        }
+      }
+
+      after(() => scoreFeedback(feedbackId));
+
+      return {success: true}
+    } catch (e) {
+      console.error('Error Retrying Feedback!', e)
+
+      return {
+        success: false,
+        message: "Could not retry, please try again"
+      }
+    }
+  }
+
   export async function getFeedbackByInterviewId(params: GetFeedbackByInterviewIdParams): Promise<Feedback | null> {
     const { interviewId, userId } = params;
-  
+
+    const user = await getCurrentUser();
+
+    if (!user || user.id !== userId) return null;
 
     const feedbackSnapshot = await db
       .collection('feedback')
@@ -114,14 +804,226 @@ system:
   
     if (feedbackSnapshot.empty) return null;
   
-    const feedbackDoc = feedbackSnapshot.docs[0];
-    const feedbackData = feedbackDoc.data();
-  
+    return toFeedback(feedbackSnapshot.docs[0]);
+  }
+
+  // Every retake of one interview, newest first.
+  export async function getFeedbacksByInterviewId(params: GetFeedbackByInterviewIdParams): Promise<Feedback[]> {
+    const { interviewId, userId } = params;
+
+    const user = await getCurrentUser();
+
+    if (!user || user.id !== userId) return [];
+
+    const feedbackSnapshot = await db
+      .collection('feedback')
+      .where('interviewId', '==', interviewId)
+      .where('userId', '==', userId)
+      .orderBy('createdAt', 'desc')
+      .get();
+
+    return feedbackSnapshot.docs.map(toFeedback);
+  }
+
+  // Every attempt the user has made, oldest first, for the progress dashboard.
+  export async function getFeedbackByUserId(userId: string): Promise<Feedback[]> {
+    const user = await getCurrentUser();
+
+    if (!user || user.id !== userId) return [];
+
+    const feedbackSnapshot = await db
+      .collection('feedback')
+      .where('userId', '==', userId)
+      .orderBy('createdAt', 'asc')
+      .get();
+
+    return feedbackSnapshot.docs.map(toFeedback);
+  }
+
+  // Latest feedback for each of the given interviews, keyed by interview id.
+  // Firestore caps `in` filters at 30 values, so ids are queried in chunks.
+  export async function getLatestFeedbackByInterviewIds(params: GetLatestFeedbackByInterviewIdsParams): Promise<Record<string, Feedback>> {
+    const { interviewIds, userId } = params;
+
+    const user = await getCurrentUser();
+
+    if (!user || user.id !== userId || interviewIds.length === 0) return {};
+
+    const chunks = Array.from({ length: Math.ceil(interviewIds.length / 30) }, (_, index) =>
+      interviewIds.slice(index * 30, index * 30 + 30)
+    );
+
+    const snapshots = await Promise.all(
+      chunks.map((chunk) =>
+        db
+          .collection('feedback')
+          .where('userId', '==', userId)
+          .where('interviewId', 'in', chunk)
+          .get()
+      )
+    );
+
+    const latest: Record<string, Feedback> = {};
+
+    snapshots.flatMap((snapshot) => snapshot.docs.map(toFeedback)).forEach((feedback) => {
+      const current = latest[feedback.interviewId];
+
+      if (!current || feedback.createdAt > current.createdAt) latest[feedback.interviewId] = feedback;
+    });
+
+    return latest;
+  }
+
+  export async function getFeedbackById(feedbackId: string): Promise<Feedback | null> {
+    const [user, feedbackDoc] = await Promise.all([
+      getCurrentUser(),
+      db.collection('feedback').doc(feedbackId).get(),
+    ]);
+
+    if (!feedbackDoc.exists) return null;
+
+    const feedback = toFeedback(feedbackDoc);
+
+    return canViewFeedback(feedback, user) ? feedback : null;
+  }
+
+  async function updateFeedbackReviewers(params: ShareFeedbackParams, update: (email: string) => FieldValue) {
+    const { feedbackId, email } = params;
+
+    const parsedEmail = z.string().trim().toLowerCase().email().safeParse(email);
+
+    if (!parsedEmail.success) {
+      return {
+        success: false,
+        message: "Invalid Email format"
+      }
+    }
+
+    const [user, feedbackDoc] = await Promise.all([
+      getCurrentUser(),
+      db.collection('feedback').doc(feedbackId).get(),
+    ]);
+
+    if (!user || !feedbackDoc.exists || feedbackDoc.data()?.userId !== user.id) {
+      return {
+        success: false,
+        message: "Feedback not found"
+      }
+    }
+
+    await feedbackDoc.ref.update({ sharedWith: update(parsedEmail.data) });
+
     return {
-      id: feedbackDoc.id,
-      ...feedbackData,
-  
-      createdAt: feedbackData.createdAt?.toDate ? feedbackData.createdAt.toDate().toISOString() : feedbackData.createdAt
-    } as Feedback;
+      success: true
+    }
+  }
+
+  export async function shareFeedback(params: ShareFeedbackParams) {
+    return updateFeedbackReviewers(params, (email) => FieldValue.arrayUnion(email));
+  }
+
+  export async function unshareFeedback(params: ShareFeedbackParams) {
+    return updateFeedbackReviewers(params, (email) => FieldValue.arrayRemove(email));
+  }
+
+  export async function saveSessionDraft(draft: Omit<SessionDraft, 'updatedAt'>) {
+    const parsed = sessionDraftSchema.safeParse(draft);
+
+    if (!parsed.success) {
+      return {
+        success: false,
+        message: parsed.error.errors[0]?.message ?? "Invalid draft"
+      }
+    }
+
+    const { interviewId, transcript, startedAt } = parsed.data;
+
+    const [user, interview] = await Promise.all([
+      getCurrentUser(),
+      fetchInterview(interviewId),
+    ]);
+
+    if (!user) {
+      return {
+        success: false,
+        message: "Sign in to save your progress"
+      }
+    }
+
+    // only interviews the candidate can take get a draft
+    if (!interview || !canViewInterview(interview, user)) {
+      return {
+        success: false,
+        message: "Interview not found"
+      }
+    }
+
+    try {
+      await draftRef(user.id, interviewId).set({
+        interviewId,
+        userId: user.id,
+        transcript,
+        startedAt,
+        diagram: parseDiagram(draft.diagram),
+        updatedAt: new Date().toISOString(),
+      });
+
+      return {
+        success: true
+      }
+    } catch (e) {
+      console.error('Error Saving Draft!', e)
+
+      return {
+        success: false,
+        message: "Could not save your progress"
+      }
+    }
+  }
+
+  export async function getSessionDraft(interviewId: string): Promise<SessionDraft | null> {
+    const user = await getCurrentUser();
+
+    if (!user) return null;
+
+    const draft = await draftRef(user.id, interviewId).get();
+
+    if (!draft.exists) return null;
+
+    const { transcript, startedAt, diagram = null, updatedAt } = draft.data()!;
+
+    return { interviewId, transcript, startedAt, diagram, updatedAt };
+  }
+
+  export async function discardSessionDraft(interviewId: string) {
+    const user = await getCurrentUser();
+
+    if (!user) return { success: false };
+
+    await draftRef(user.id, interviewId).delete();
+
+    return {
+      success: true
+    }
+  }
+
+  export async function getSessionById(sessionId: string): Promise<InterviewSession | null> {
+    const user = await getCurrentUser();
+
+    const session = await db
+      .collection('sessions')
+      .doc(sessionId)
+      .get();
+
+    if (!session.exists) return null;
+
+    const sessionData = session.data();
+
+    // transcripts are personal, only the candidate can replay them
+    if (!user || sessionData?.userId !== user.id) return null;
+
+    return {
+      id: session.id,
+      ...sessionData,
+    } as InterviewSession;
   }
-  
\ No newline at end of file
@@ -0,0 +1,45 @@
+'use server';
+
+import { db } from "@/firebase/admin";
+import { getCurrentUser } from "@/lib/actions/auth.action";
+import { normalizeTechStack } from "@/lib/tech";
+import { profileSchema } from "@/constants";
+
+export async function updateProfile(params: UpdateProfileParams) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return {
+      success: false,
+      message: "Sign in to update your profile"
+    }
+  }
+
+  const parsed = profileSchema.safeParse(params);
+
+  if (!parsed.success) {
+    return {
+      success: false,
+      message: parsed.error.errors[0]?.message ?? "Invalid profile details"
+    }
+  }
+
+  try {
+    // email is owned by Firebase Auth and can't be changed here
+    await db.collection('users').doc(user.id).update({
+      ...parsed.data,
+      preferredTechStack: normalizeTechStack(parsed.data.preferredTechStack),
+    });
+
+    return {
+      success: true
+    }
+  } catch (e) {
+    console.error('Error Updating Profile!', e)
+
+    return {
+      success: false,
+      message: "Could not save your profile"
+    }
+  }
+}
@@ -0,0 +1,60 @@
+const STOP_WORDS = new Set([
+  'about', 'more', 'their', 'them', 'then', 'than', 'that', 'this', 'with', 'when', 'while', 'were', 'your',
+  'should', 'could', 'would', 'into', 'from', 'have', 'been', 'some', 'such', 'also', 'very', 'candidate',
+  'answer', 'answers', 'responses', 'provide', 'provided', 'improve', 'better',
+]);
+
+const keywords = (text: string) =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9+#]+/)
+      .filter((word) => word.length > 3 && !STOP_WORDS.has(word))
+  );
+
+// Feedback is free text written fresh on every attempt, so the same weakness
+// is rarely phrased the same way twice. Two remarks are treated as the same
+// point when they share at least half the keywords of the shorter one.
+export function isSimilarRemark(a: string, b: string): boolean {
+  const wordsA = keywords(a);
+  const wordsB = keywords(b);
+  const shorter = Math.min(wordsA.size, wordsB.size);
+
+  if (shorter === 0) return false;
+
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+
+  return shared / shorter >= 0.5;
+}
+
+const hasSimilar = (remark: string, remarks: string[]) => remarks.some((other) => isSimilarRemark(remark, other));
+
+// A weakness flagged in the earlier attempt counts as addressed when the later
+// attempt doesn't raise it again.
+export function compareAttempts(before: Feedback, after: Feedback): AttemptComparison {
+  const names = [
+    ...new Set([...before.categoryScores, ...after.categoryScores].map((category) => category.name)),
+  ];
+
+  const categoryDeltas = names.map((name) => {
+    const beforeScore = before.categoryScores.find((category) => category.name === name)?.score ?? null;
+    const afterScore = after.categoryScores.find((category) => category.name === name)?.score ?? null;
+
+    return {
+      name,
+      before: beforeScore,
+      after: afterScore,
+      delta: beforeScore !== null && afterScore !== null ? afterScore - beforeScore : null,
+    };
+  });
+
+  return {
+    totalDelta: after.totalScore - before.totalScore,
+    categoryDeltas,
+    newStrengths: after.strengths.filter((strength) => !hasSimilar(strength, before.strengths)),
+    weaknesses: before.areasForImprovement.map((area) => ({
+      area,
+      addressed: !hasSimilar(area, after.areasForImprovement),
+    })),
+  };
+}
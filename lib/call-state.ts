@@ -0,0 +1,82 @@
+export type CallStatus = 'idle' | 'connecting' | 'active' | 'paused' | 'reconnecting' | 'errored' | 'finished';
+
+export interface CallState {
+  status: CallStatus;
+  error: string | null;
+  reconnectAttempts: number;
+}
+
+export type CallEvent =
+  | { type: 'START' }
+  | { type: 'CONNECTED' }
+  | { type: 'PAUSE' }
+  | { type: 'RESUME' }
+  | { type: 'DROPPED'; error: string }
+  | { type: 'FAILED'; error: string }
+  | { type: 'END' }
+  | { type: 'RESET' };
+
+export const MAX_RECONNECT_ATTEMPTS = 2;
+
+export const initialCallState: CallState = { status: 'idle', error: null, reconnectAttempts: 0 };
+
+// A dropped call is retried automatically a couple of times before the
+// candidate is asked what to do with the transcript so far. Events that
+// don't apply to the current status are ignored rather than thrown, since
+// Vapi can deliver them late or more than once.
+export function callReducer(state: CallState, event: CallEvent): CallState {
+  switch (event.type) {
+    case 'START':
+      return state.status === 'idle' || state.status === 'errored'
+        ? { status: 'connecting', error: null, reconnectAttempts: 0 }
+        : state;
+
+    case 'CONNECTED':
+      return state.status === 'connecting' || state.status === 'reconnecting'
+        ? { status: 'active', error: null, reconnectAttempts: 0 }
+        : state;
+
+    case 'PAUSE':
+      return state.status === 'active' ? { ...state, status: 'paused' } : state;
+
+    case 'RESUME':
+      return state.status === 'paused' ? { ...state, status: 'active' } : state;
+
+    case 'DROPPED':
+      return state.status === 'active' || state.status === 'paused'
+        ? { status: 'reconnecting', error: event.error, reconnectAttempts: 1 }
+        : state;
+
+    case 'FAILED':
+      if (state.status === 'reconnecting' && state.reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
+        return { status: 'reconnecting', error: event.error, reconnectAttempts: state.reconnectAttempts + 1 };
+      }
+
+      return state.status === 'connecting' || state.status === 'reconnecting'
+        ? { ...state, status: 'errored', error: event.error }
+        : state;
+
+    // also reachable from idle, when a saved transcript is scored without calling again
+    case 'END':
+      return state.status === 'finished' ? state : { ...state, status: 'finished' };
+
+    case 'RESET':
+      return initialCallState;
+  }
+}
+
+// Vapi and the browser report failures in developer terms, so they're
+// translated into something the candidate can act on.
+export function describeCallError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+
+  if (/permission|notallowed|microphone|getusermedia/i.test(message)) {
+    return "We couldn't access your microphone. Allow microphone access in your browser and try again.";
+  }
+
+  if (/network|connection|timeout|websocket|offline|fetch/i.test(message)) {
+    return 'The connection to the interviewer was lost.';
+  }
+
+  return 'Something went wrong with the call.';
+}
@@ -0,0 +1,37 @@
+import { interviewer } from '@/constants';
+
+export const CHAT_END_MARKER = '[[END]]';
+
+// Counting the greeting, so a chat holds 99 answers and the replies to them.
+export const CHAT_MESSAGE_LIMIT = 200;
+
+// The conversation is kept on the server, one document per attempt, so the
+// model only ever sees replies it actually sent.
+export const chatDocId = (userId: string, attemptKey: string) => `${userId}_${attemptKey}`;
+
+export const formatQuestionList = (questions: string[]) => questions.map((question) => `- ${question}`).join('\n');
+
+// Chat reuses the voice interviewer's prompt so both modes ask the same
+// questions the same way, only the notes about delivery differ. The greeting
+// is described here rather than sent as the first message, since some
+// providers reject a conversation that opens with an assistant turn.
+export function buildChatInterviewerPrompt(questions: string[]): string {
+  const basePrompt = interviewer.model?.messages?.find((message) => message.role === 'system')?.content ?? '';
+
+  return `${basePrompt.replace('{{questions}}', formatQuestionList(questions))}
+
+This interview is taking place over text chat instead of voice. Ignore the instructions about voice and pauses: reply in short plain-text messages without markdown, and wait for the candidate however long they take.
+You already opened the chat with: "${interviewer.firstMessage}"
+Once you have concluded the interview, end your final message with ${CHAT_END_MARKER}`;
+}
+
+// The marker can arrive split across chunks, so everything from the first
+// "[[" on is held back while the reply is still streaming.
+export function parseInterviewerReply(text: string) {
+  const markerAt = text.indexOf('[[');
+
+  return {
+    content: (markerAt >= 0 ? text.slice(0, markerAt) : text).trim(),
+    isFinished: text.includes(CHAT_END_MARKER),
+  };
+}
@@ -0,0 +1,40 @@
+import { transpileSolution } from '@/lib/actions/general.action';
+
+const RUN_TIMEOUT = 10000;
+
+// Every run gets a fresh worker, so an infinite loop or leftover state from
+// the previous run can't affect the next one. The hidden tests are not in the
+// browser, so a run here only checks that the code works and shows its logs.
+export async function runSubmission(challenge: PublicCodingChallenge, code: string, timeout = RUN_TIMEOUT): Promise<CodeRunResult> {
+  const transpiled = await transpileSolution({ code, language: challenge.language });
+
+  if (!transpiled.success || transpiled.code === undefined) {
+    return { results: [], logs: [], error: transpiled.message ?? 'The code could not be compiled.', timedOut: false };
+  }
+
+  const source = transpiled.code;
+
+  return new Promise((resolve) => {
+    const worker = new Worker(new URL('./code-runner.worker.ts', import.meta.url));
+
+    const finish = (result: CodeRunResult) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve(result);
+    };
+
+    const timer = setTimeout(
+      () => finish({ results: [], logs: [], error: `The code ran for more than ${timeout / 1000} seconds.`, timedOut: true }),
+      timeout
+    );
+
+    worker.onmessage = (event: MessageEvent<CodeRunResult>) => finish(event.data);
+
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish({ results: [], logs: [], error: event.message || 'The code could not be run.', timedOut: false });
+    };
+
+    worker.postMessage({ source, functionName: challenge.functionName });
+  });
+}
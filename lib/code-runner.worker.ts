@@ -0,0 +1,49 @@
+// Runs a candidate's submission off the page: the worker has no access to the
+// DOM or the session, and the page terminates it when it runs too long.
+// TypeScript arrives already compiled to JavaScript by the server.
+
+interface RunRequest {
+  source: string;
+  functionName: string;
+}
+
+// removed before any submission runs, so the code can't reach the network
+for (const api of ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts']) {
+  Object.defineProperty(self, api, { value: undefined, writable: false, configurable: false });
+}
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const formatLogValue = (value: unknown) => {
+  if (typeof value === 'string') return value;
+
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+};
+
+self.onmessage = (event: MessageEvent<RunRequest>) => {
+  const { source, functionName } = event.data;
+  const logs: string[] = [];
+
+  console.log = (...values: unknown[]) => {
+    logs.push(values.map(formatLogValue).join(' '));
+  };
+
+  try {
+    // compiled on its own first, so syntax errors point at the candidate's code
+    new Function(source);
+
+    const solution = new Function(`${source}\nreturn typeof ${functionName} === 'function' ? ${functionName} : undefined;`)();
+
+    if (typeof solution !== 'function') throw new Error(`Define a function called ${functionName}.`);
+
+    postMessage({ results: [], logs, timedOut: false } satisfies CodeRunResult);
+  } catch (error) {
+    postMessage({ results: [], logs, error: describeError(error), timedOut: false } satisfies CodeRunResult);
+  }
+};
+
+export {};
@@ -0,0 +1,173 @@
+import { spawn } from 'node:child_process';
+import ts from 'typescript';
+
+const SANDBOX_TIMEOUT = 5000;
+
+// Defined before the submission runs, with its own references to JSON, so a
+// submission that replaces built-ins can't change how its answers are read.
+// Only the arguments ever enter the context, never the expected values, and
+// the answers leave it as one string built without touching any prototype.
+const RUNNER = `'use strict';
+const __run__ = ((stringify, parse) => (solution, argsList) => {
+  if (typeof solution !== 'function') return 'missing';
+
+  let output = '[';
+
+  for (let index = 0; index < argsList.length; index++) {
+    // 0 when it threw, 1 when the answer has no JSON form
+    let entry = '0';
+
+    try {
+      const answer = stringify(solution(...parse(argsList[index])));
+      entry = answer === undefined ? '1' : stringify(answer);
+    } catch {}
+
+    output += (index ? ',' : '') + entry;
+  }
+
+  return output + ']';
+})(JSON.stringify, JSON.parse);`;
+
+// Runs in a separate Node process with no environment, no file system and no
+// child processes, and inside that in a fresh vm context that has no require,
+// process or network to begin with. node:vm alone is not a security
+// boundary, the process around it is what an escape would land in.
+const SANDBOX_SOURCE = `'use strict';
+const vm = require('node:vm');
+
+let input = '';
+
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', (chunk) => { input += chunk; });
+process.stdin.on('end', () => {
+  const { runner, source, call, timeout } = JSON.parse(input);
+  const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+  const send = (result) => process.stdout.write(JSON.stringify(result));
+
+  try {
+    vm.runInContext(runner, context);
+    vm.runInContext('globalThis.console = { log() {}, error() {}, warn() {} };', context);
+    vm.runInContext(source, context, { timeout, filename: 'solution.js' });
+  } catch (error) {
+    // nothing from the tests exists yet, so the message can't reveal them
+    const message = error && typeof error.message === 'string' ? error.message.slice(0, 200) : 'The code threw an error.';
+    return send({ error: /timed out/i.test(message) ? 'timeout' : message });
+  }
+
+  try {
+    const output = vm.runInContext(call, context, { timeout });
+    send({ output: typeof output === 'string' ? output : null });
+  } catch (error) {
+    send({ error: error && /timed out/i.test(String(error.message)) ? 'timeout' : 'The code could not be run.' });
+  }
+});
+`;
+
+const SANDBOX_ARGS = [
+  '--experimental-permission',
+  '--disallow-code-generation-from-strings',
+  '--max-old-space-size=64',
+  '--no-warnings',
+  '-e',
+  SANDBOX_SOURCE,
+];
+
+function isEqual(actual: unknown, expected: unknown): boolean {
+  if (Object.is(actual, expected)) return true;
+
+  if (Array.isArray(actual) && Array.isArray(expected)) {
+    return actual.length === expected.length && actual.every((item, index) => isEqual(item, expected[index]));
+  }
+
+  if (actual && expected && typeof actual === 'object' && typeof expected === 'object') {
+    const actualKeys = Object.keys(actual);
+    const expectedRecord = expected as Record<string, unknown>;
+
+    return actualKeys.length === Object.keys(expected).length
+      && actualKeys.every((key) => isEqual((actual as Record<string, unknown>)[key], expectedRecord[key]));
+  }
+
+  return false;
+}
+
+// The sandbox only reports answers, whether they are right is decided here.
+// A test result says whether it passed or threw and nothing else, so no error
+// text the candidate controls can carry a hidden input back to the browser.
+function checkAnswers(output: string, tests: CodingTestCase[]): CodingTestResult[] | null {
+  try {
+    const answers: unknown = JSON.parse(output);
+
+    if (!Array.isArray(answers) || answers.length !== tests.length) return null;
+
+    return tests.map((test, index) => {
+      const answer = answers[index];
+
+      if (answer === 0) return { passed: false, threw: true };
+      if (typeof answer !== 'string') return { passed: false };
+
+      return { passed: isEqual(JSON.parse(answer), JSON.parse(test.expected)) };
+    });
+  } catch {
+    return null;
+  }
+}
+
+export function transpileSubmission(code: string, language: CodingLanguage): string {
+  if (language !== 'typescript') return code;
+
+  return ts.transpileModule(code, { compilerOptions: { target: ts.ScriptTarget.ES2020 } }).outputText;
+}
+
+// Hidden tests never leave the server, this is the only place they run.
+export function runHiddenTests(challenge: CodingChallenge, code: string, timeout = SANDBOX_TIMEOUT): Promise<CodeRunResult> {
+  const timedOutResult: CodeRunResult = {
+    results: [],
+    logs: [],
+    error: `The code ran for more than ${timeout / 1000} seconds.`,
+    timedOut: true,
+  };
+  const failedResult: CodeRunResult = { results: [], logs: [], error: 'The code could not be run.', timedOut: false };
+
+  return new Promise((resolve) => {
+    // an empty environment, no secrets from the server reach the sandbox
+    const child = spawn(process.execPath, SANDBOX_ARGS, { env: {} as NodeJS.ProcessEnv, stdio: ['pipe', 'pipe', 'ignore'] });
+    let stdout = '';
+
+    const finish = (result: CodeRunResult) => {
+      clearTimeout(timer);
+      child.kill('SIGKILL');
+      resolve(result);
+    };
+
+    // the vm timeout covers the code itself, this also covers starting the process
+    const timer = setTimeout(() => finish(timedOutResult), timeout * 2 + 2000);
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => { stdout += chunk; });
+
+    child.on('error', () => finish(failedResult));
+
+    child.on('close', () => {
+      try {
+        const { output, error } = JSON.parse(stdout) as { output?: string | null; error?: string };
+
+        if (error === 'timeout') return finish(timedOutResult);
+        if (error) return finish({ ...failedResult, error });
+        if (output === 'missing') return finish({ ...failedResult, error: `Define a function called ${challenge.functionName}.` });
+
+        const results = output ? checkAnswers(output, challenge.tests) : null;
+
+        finish(results ? { results, logs: [], timedOut: false } : failedResult);
+      } catch {
+        finish(failedResult);
+      }
+    });
+
+    child.stdin.end(JSON.stringify({
+      runner: RUNNER,
+      source: transpileSubmission(code, challenge.language),
+      call: `__run__(typeof ${challenge.functionName} === 'function' ? ${challenge.functionName} : undefined, ${JSON.stringify(challenge.tests.map((test) => test.args))})`,
+      timeout,
+    }));
+  });
+}
@@ -0,0 +1,71 @@
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+export const codingLanguageFor = (techstack: string[]): CodingLanguage =>
+  techstack.some((tech) => tech.toLowerCase() === 'typescript') ? 'typescript' : 'javascript';
+
+export const codingLanguageLabels: Record<CodingLanguage, string> = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+};
+
+const parsesAs = (json: string, check: (value: unknown) => boolean) => {
+  try {
+    return check(JSON.parse(json));
+  } catch {
+    return false;
+  }
+};
+
+// The model writes test cases as JSON strings and gets the quoting wrong now
+// and then, a case that can't be parsed would fail every submission.
+export function validTestCases(tests: CodingTestCase[]): CodingTestCase[] {
+  return tests.filter((test) => parsesAs(test.args, Array.isArray) && parsesAs(test.expected, () => true));
+}
+
+export const isRunnableChallenge = (challenge: Pick<CodingChallenge, 'functionName' | 'tests'>) =>
+  IDENTIFIER.test(challenge.functionName) && challenge.tests.length > 0;
+
+export const countPassed = (result: CodeRunResult) => result.results.filter((test) => test.passed).length;
+
+export function describeRunResult(result: CodeRunResult, total: number): string {
+  if (result.timedOut) return `The code timed out before finishing the ${total} tests.`;
+  if (result.error) return `The code could not run: ${result.error}`;
+
+  return `It passed ${countPassed(result)} of ${total} tests.`;
+}
+
+// Only the number of hidden tests reaches the browser, never the cases themselves.
+export const toPublicChallenge = (challenge: CodingChallenge): PublicCodingChallenge => ({
+  title: challenge.title,
+  prompt: challenge.prompt,
+  language: challenge.language,
+  functionName: challenge.functionName,
+  starterCode: challenge.starterCode,
+  testCount: challenge.tests.length,
+});
+
+// A run in the browser has no tests to go through, it only shows whether the code runs.
+export function describeLocalRun(result: CodeRunResult, challenge: PublicCodingChallenge): string {
+  if (result.timedOut) return 'The code timed out before finishing.';
+  if (result.error) return `The code could not run: ${result.error}`;
+
+  return `The code runs. Submit it to check it against the ${challenge.testCount} hidden tests.`;
+}
+
+const SUBMISSION_PREFIX = 'Submitted a solution to the coding challenge';
+
+// Submissions go into the transcript as a candidate turn, so feedback is
+// scored from exactly what was written. Test results are left out, scoring
+// runs the code again on the server rather than trusting the transcript.
+export function formatSubmission(challenge: PublicCodingChallenge, code: string): string {
+  return `${SUBMISSION_PREFIX} "${challenge.title}" in ${codingLanguageLabels[challenge.language]}.
+\`\`\`${challenge.language}
+${code}
+\`\`\``;
+}
+
+export function lastSubmittedCode(transcript: { role: string; content: string }[]): string | null {
+  const submission = transcript.findLast((turn) => turn.role === 'user' && turn.content.startsWith(SUBMISSION_PREFIX));
+
+  return submission?.content.match(/```\w*\n([\s\S]*)\n```$/)?.[1] ?? null;
+}
@@ -0,0 +1,47 @@
+const storageKey = (interviewId: string) => `intervia:draft:${interviewId}`;
+
+// The browser copy is written on every turn, so it survives a refresh or a
+// crashed tab even when the last server-side save didn't make it.
+export function loadLocalDraft(interviewId: string): SessionDraft | null {
+  try {
+    const saved = localStorage.getItem(storageKey(interviewId));
+
+    return saved ? (JSON.parse(saved) as SessionDraft) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveLocalDraft(draft: SessionDraft) {
+  try {
+    localStorage.setItem(storageKey(draft.interviewId), JSON.stringify(draft));
+  } catch {
+    // storage can be full or disabled, the server copy still exists
+  }
+}
+
+export function clearLocalDraft(interviewId: string) {
+  try {
+    localStorage.removeItem(storageKey(interviewId));
+  } catch {
+    // nothing to clear
+  }
+}
+
+export const pickLatestDraft = (...drafts: (SessionDraft | null | undefined)[]): SessionDraft | null =>
+  drafts
+    .filter((draft): draft is SessionDraft => !!draft && draft.transcript.length > 0)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0] ?? null;
+
+// Handed to the interviewer when a call is resumed, so it continues from the
+// next unanswered question instead of starting the interview over.
+export function buildResumeContext(transcript: Pick<TranscriptTurn, 'role' | 'content'>[]): string {
+  const conversation = transcript
+    .map((turn) => `${turn.role === 'user' ? 'Candidate' : 'Interviewer'}: ${turn.content}`)
+    .join('\n');
+
+  return `The call dropped and has now been reconnected. This is the conversation so far:
+${conversation}
+
+Do not greet the candidate again or repeat questions that were already answered. Continue with the next unanswered question.`;
+}
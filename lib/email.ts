@@ -0,0 +1,15 @@
+// Comma separated list of domains allowed to sign up, e.g. "acme.com,acme.io".
+// Leave NEXT_PUBLIC_ALLOWED_EMAIL_DOMAINS empty to allow any address.
+const allowedDomains = (process.env.NEXT_PUBLIC_ALLOWED_EMAIL_DOMAINS ?? '')
+  .split(',')
+  .map((domain) => domain.trim().toLowerCase())
+  .filter(Boolean);
+
+export function isAllowedEmailDomain(email: string): boolean {
+  if (allowedDomains.length === 0) return true;
+
+  const domain = email.split('@')[1]?.toLowerCase();
+  if (!domain) return false;
+
+  return allowedDomains.some((allowed) => domain === allowed || domain.endsWith(`.${allowed}`));
+}
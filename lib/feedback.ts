@@ -0,0 +1,57 @@
+type GeneratedQuestionScore = Omit<QuestionScore, 'question'> & { question?: string };
+
+const normalizeQuestion = (text = '') => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Keeps exactly one verdict per stored question, in interview order. The
+// model occasionally merges, drops or reorders questions, so verdicts are
+// matched on the question text rather than their position, and a question
+// nothing matched is reported as skipped rather than borrowing another's score.
+export function alignQuestionScores(questions: string[], generated: GeneratedQuestionScore[]): QuestionScore[] {
+  const remaining = generated.map((score) => ({ score, text: normalizeQuestion(score.question) }));
+
+  const take = (isMatch: (text: string) => boolean) => {
+    const index = remaining.findIndex((candidate) => !!candidate.text && isMatch(candidate.text));
+
+    return index === -1 ? undefined : remaining.splice(index, 1)[0].score;
+  };
+
+  return questions.map((question) => {
+    const text = normalizeQuestion(question);
+    // the model sometimes shortens or rephrases the question slightly
+    const match = take((candidate) => candidate === text)
+      ?? take((candidate) => candidate.includes(text) || text.includes(candidate));
+
+    if (!match) {
+      return {
+        question,
+        verdict: 'skipped',
+        score: 0,
+        comment: 'This question was not reached during the interview.',
+        modelAnswerHints: [],
+        candidateQuotes: [],
+      };
+    }
+
+    return {
+      ...match,
+      question,
+      score: Math.min(100, Math.max(0, Math.round(match.score))),
+    };
+  });
+}
+
+// Feedback written before attempts had a status was always scored.
+export const isScoredFeedback = (feedback: Pick<Feedback, 'status'>) => (feedback.status ?? 'complete') === 'complete';
+
+// A job that hasn't finished in this long is assumed lost along with the
+// server instance running it, and can be retried like a failed one.
+const FEEDBACK_JOB_TIMEOUT = 5 * 60 * 1000;
+
+export const isPendingFeedback = (feedback: Pick<Feedback, 'status'>) =>
+  feedback.status === 'pending' || feedback.status === 'processing';
+
+export function canRetryFeedback(feedback: Pick<Feedback, 'status' | 'createdAt' | 'updatedAt'>, now = Date.now()) {
+  if (feedback.status === 'failed') return true;
+
+  return isPendingFeedback(feedback) && now - Date.parse(feedback.updatedAt ?? feedback.createdAt) > FEEDBACK_JOB_TIMEOUT;
+}
@@ -0,0 +1,47 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// long enough to cover a full generator call
+const TOKEN_TTL = 60 * 60;
+
+const sign = (userId: string, expiresAt: number) =>
+  createHmac('sha256', process.env.VAPI_WEBHOOK_SECRET!)
+    .update(`${userId}.${expiresAt}`)
+    .digest('base64url');
+
+// timingSafeEqual throws on buffers of different lengths, and a string's
+// length can match while its UTF-8 byte length doesn't
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Issued to the signed-in user before a generator call and echoed back by the
+// workflow's apiRequest node, so the route only accepts the userid it was
+// signed for.
+export function signGenerateToken(userId: string): string {
+  const expiresAt = Math.floor(Date.now() / 1000) + TOKEN_TTL;
+
+  return `${expiresAt}.${sign(userId, expiresAt)}`;
+}
+
+export function verifyGenerateRequest(request: Request, userId: string): boolean {
+  const secret = process.env.VAPI_WEBHOOK_SECRET;
+
+  if (!secret) {
+    console.error('VAPI_WEBHOOK_SECRET is not set, rejecting generate request');
+    return false;
+  }
+
+  // static workflows configured on the Vapi dashboard send the shared secret
+  const sharedSecret = request.headers.get('x-vapi-secret');
+  if (sharedSecret) return safeEqual(sharedSecret, secret);
+
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  const [expiresAt, signature = ''] = token.split('.');
+
+  if (!expiresAt || Number(expiresAt) < Date.now() / 1000) return false;
+
+  return safeEqual(signature, sign(userId, Number(expiresAt)));
+}
@@ -0,0 +1,111 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import { getModel } from "@/lib/llm";
+import { sanitizeForVoice } from "@/lib/questions";
+import { buildSearchFields } from "@/lib/search";
+import { normalizeTechStack } from "@/lib/tech";
+import { isSystemDesignInterview } from "@/lib/whiteboard";
+import { codingLanguageFor, codingLanguageLabels, isRunnableChallenge, validTestCases } from "@/lib/coding";
+import { codingChallengeSchema, interviewQuestionSchema } from "@/constants";
+import { db } from "@/firebase/admin";
+
+type InterviewDetails = Pick<Interview, 'type' | 'role' | 'level' | 'techstack'>;
+
+const describeInterview = ({ type, role, level, techstack }: InterviewDetails) => `
+        The job role is ${role}.
+        The job experience level is ${level}.
+        The tech stack used in the job is: ${techstack.join(", ")}.
+        ${isSystemDesignInterview(type)
+          ? "This is a system design round: ask the candidate to design systems end to end, sketching them on a whiteboard while they explain requirements, components, scaling and trade-offs."
+          : `The focus between behavioural and technical questions should lean towards: ${type}.`}
+        The questions are going to be read by a voice assistant so do not use "/" or "*" or any other special characters which might break the voice assistant.
+        For each question also give its category, difficulty, the key points a strong answer should cover and how many seconds a good answer should take.`;
+
+const toVoiceQuestion = (question: InterviewQuestion): InterviewQuestion => ({
+  ...question,
+  text: sanitizeForVoice(question.text),
+  estimatedAnswerTime: Math.round(question.estimatedAnswerTime),
+});
+
+// Submissions are checked against the tests on the server, so the challenge
+// has to be a single function that takes arguments and returns a value. Challenges whose
+// tests can't be used are dropped rather than shown broken.
+async function generateCodingChallenge({ role, level, techstack }: InterviewDetails): Promise<CodingChallenge | null> {
+  const language = codingLanguageFor(techstack);
+
+  const { object } = await generateObject({
+    model: getModel(),
+    schema: codingChallengeSchema,
+    prompt: `Prepare one coding challenge for a ${level} ${role} job interview, to be solved in ${codingLanguageLabels[language]} in about 15 minutes.
+        The candidate implements a single function that is tested by calling it with arguments and comparing the value it returns, so it must not read input, print, use timers or use the network.
+        Arguments and return values must be plain JSON values.
+    `,
+  });
+
+  const challenge = { ...object, language, tests: validTestCases(object.tests) };
+
+  return isRunnableChallenge(challenge) ? challenge : null;
+}
+
+// Shared by the Vapi generate route and the manual interview builder, so both
+// produce identical interview documents. Interviews start as drafts until the
+// owner reviews the questions in the editor.
+export async function generateInterview(params: GenerateInterviewParams): Promise<string> {
+  const { type, role, level, techstack, amount, includeCodingChallenge, userId } = params;
+
+  const { object } = await generateObject({
+    model: getModel(),
+    schema: z.object({
+      questions: z.array(interviewQuestionSchema).min(amount),
+    }),
+    prompt: `Prepare questions for a job interview.
+        ${describeInterview(params)}
+        The amount of questions required is exactly: ${amount}.
+    `,
+  });
+
+  const questions = object.questions.slice(0, amount).map(toVoiceQuestion);
+  const normalizedTechstack = normalizeTechStack(techstack);
+  const codingChallenge = includeCodingChallenge
+    ? await generateCodingChallenge({ type, role, level, techstack: normalizedTechstack })
+    : null;
+
+  const interview = {
+    role: role.trim(),
+    type: type.trim(),
+    level: level.trim(),
+    techstack: normalizedTechstack,
+    search: buildSearchFields({ role, type, level, techstack: normalizedTechstack }),
+    attemptCount: 0,
+    questions,
+    codingChallenge,
+    userId: userId,
+    finalized: false,
+    visibility: "private",
+    createdAt: new Date().toISOString(),
+  };
+
+  const doc = await db.collection("interviews").add(interview);
+
+  return doc.id;
+}
+
+export async function generateQuestion(interview: InterviewDetails, existing: InterviewQuestion[], replacing?: InterviewQuestion): Promise<InterviewQuestion> {
+  const otherQuestions = existing
+    .filter((question) => question.text !== replacing?.text)
+    .map((question) => `- ${question.text}`)
+    .join("\n");
+
+  const { object } = await generateObject({
+    model: getModel(),
+    schema: interviewQuestionSchema,
+    prompt: `Prepare one new question for a job interview.
+        ${describeInterview(interview)}
+        ${replacing ? `It replaces this question, keep a similar category and difficulty but ask something different: ${replacing.text}` : ""}
+        Do not repeat any of the other questions in the interview:
+        ${otherQuestions}
+    `,
+  });
+
+  return toVoiceQuestion(object);
+}
@@ -0,0 +1,94 @@
+import type { LanguageModelV1, LanguageModelV1CallOptions } from "ai";
+
+type JsonSchema = {
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema | JsonSchema[];
+  minItems?: number;
+  minimum?: number;
+};
+
+export const FAKE_TEXT_RESPONSE = "Thank you, that's a helpful answer. Let's move on to the next question.";
+
+// Builds the same value for a given schema every time, so anything that
+// round-trips through generateObject gets stable, schema-valid output.
+function sampleFromSchema(schema: JsonSchema, name = 'value'): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum?.length) return schema.enum[0];
+  if (schema.anyOf?.length) return sampleFromSchema(schema.anyOf[0], name);
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [key, sampleFromSchema(value, key)])
+      );
+    case 'array': {
+      const { items = {} } = schema;
+
+      if (Array.isArray(items)) {
+        return items.map((item, index) => sampleFromSchema(item, `${name} ${index + 1}`));
+      }
+
+      const count = Math.max(schema.minItems ?? 1, 1);
+
+      return Array.from({ length: count }, (_, index) => sampleFromSchema(items, `${name} ${index + 1}`));
+    }
+    case 'number':
+    case 'integer':
+      return Math.max(schema.minimum ?? 50, 50);
+    case 'boolean':
+      return false;
+    case 'string':
+      return `Sample ${name}`;
+    default:
+      return null;
+  }
+}
+
+function respond(options: LanguageModelV1CallOptions): string {
+  if (options.mode.type === 'object-json' && options.mode.schema) {
+    return JSON.stringify(sampleFromSchema(options.mode.schema as JsonSchema));
+  }
+
+  return FAKE_TEXT_RESPONSE;
+}
+
+const usage = { promptTokens: 0, completionTokens: 0 };
+
+export function createFakeModel(modelId = 'fake'): LanguageModelV1 {
+  return {
+    specificationVersion: 'v1',
+    provider: 'fake',
+    modelId,
+    defaultObjectGenerationMode: 'json',
+
+    async doGenerate(options) {
+      return {
+        text: respond(options),
+        finishReason: 'stop',
+        usage,
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+
+    async doStream(options) {
+      const words = respond(options).split(/(?<= )/);
+
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            words.forEach((textDelta) => controller.enqueue({ type: 'text-delta', textDelta }));
+            controller.enqueue({ type: 'finish', finishReason: 'stop', usage });
+            controller.close();
+          },
+        }),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+  };
+}
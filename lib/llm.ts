@@ -0,0 +1,41 @@
+import type { LanguageModelV1 } from "ai";
+import { google } from "@ai-sdk/google";
+import { openai, createOpenAI } from "@ai-sdk/openai";
+import { anthropic } from "@ai-sdk/anthropic";
+import { createFakeModel } from "@/lib/llm.fake";
+
+type LlmProvider = 'gemini' | 'openai' | 'anthropic' | 'local' | 'fake';
+
+const defaultModels: Record<LlmProvider, string> = {
+  gemini: 'gemini-2.0-flash-001',
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  local: 'llama3.1',
+  fake: 'fake',
+};
+
+const providers: Record<LlmProvider, (modelId: string) => LanguageModelV1> = {
+  gemini: (modelId) => google(modelId, { structuredOutputs: false }),
+  openai: (modelId) => openai(modelId),
+  anthropic: (modelId) => anthropic(modelId),
+  // any OpenAI-compatible server, e.g. Ollama or LM Studio
+  local: (modelId) => createOpenAI({
+    baseURL: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+    apiKey: process.env.LLM_API_KEY || 'local',
+    compatibility: 'compatible',
+  })(modelId),
+  fake: (modelId) => createFakeModel(modelId),
+};
+
+// Resolves the model used for question generation and feedback from
+// LLM_PROVIDER / LLM_MODEL, defaulting to Gemini.
+export function getModel(): LanguageModelV1 {
+  const provider = (process.env.LLM_PROVIDER || 'gemini') as LlmProvider;
+  const createModel = providers[provider];
+
+  if (!createModel) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}", expected one of: ${Object.keys(providers).join(', ')}`);
+  }
+
+  return createModel(process.env.LLM_MODEL || defaultModels[provider]);
+}
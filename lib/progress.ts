@@ -0,0 +1,74 @@
+import dayjs from 'dayjs';
+import { isScoredFeedback } from '@/lib/feedback';
+
+const average = (values: number[]) =>
+  values.length ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+
+// Streaks count calendar days with at least one attempt. The current streak
+// survives until the end of the day after the last attempt, so it doesn't
+// drop to zero the morning after practising.
+export function computeStreaks(dates: string[], today = new Date()) {
+  const days = [...new Set(dates.map((date) => dayjs(date).format('YYYY-MM-DD')))].sort();
+
+  let longest = 0;
+  let run = 0;
+
+  days.forEach((day, index) => {
+    run = index > 0 && dayjs(day).diff(days[index - 1], 'day') === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const lastDay = days[days.length - 1];
+  const isOngoing = !!lastDay && dayjs(today).startOf('day').diff(lastDay, 'day') <= 1;
+
+  return { current: isOngoing ? run : 0, longest };
+}
+
+// Expects feedback oldest first, the order every trend is drawn in. Attempts
+// that were too short to score are left out of every figure.
+export function buildProgress(allFeedback: Feedback[], interviews: Interview[]): ProgressSummary {
+  const feedback = allFeedback.filter(isScoredFeedback);
+  const interviewsById = new Map(interviews.map((interview) => [interview.id, interview]));
+
+  const attempts = feedback.map((item) => {
+    const interview = interviewsById.get(item.interviewId);
+
+    return {
+      feedbackId: item.id,
+      interviewId: item.interviewId,
+      role: interview?.role ?? 'Unavailable',
+      type: interview?.type ?? '',
+      totalScore: item.totalScore,
+      createdAt: item.createdAt,
+    };
+  });
+
+  const pointsByCategory = new Map<string, ProgressPoint[]>();
+
+  feedback.forEach((item) =>
+    item.categoryScores?.forEach(({ name, score }) => {
+      pointsByCategory.set(name, [...(pointsByCategory.get(name) ?? []), { date: item.createdAt, score }]);
+    })
+  );
+
+  const categoryTrends = [...pointsByCategory].map(([name, points]) => ({
+    name,
+    points,
+    average: average(points.map((point) => point.score)),
+  }));
+
+  const ranked = [...categoryTrends].sort((a, b) => b.average - a.average);
+  const { current, longest } = computeStreaks(attempts.map((attempt) => attempt.createdAt));
+
+  return {
+    attempts,
+    averageScore: average(attempts.map((attempt) => attempt.totalScore)),
+    bestScore: Math.max(0, ...attempts.map((attempt) => attempt.totalScore)),
+    categoryTrends,
+    bestCategory: ranked[0] ?? null,
+    // with a single category there is nothing to compare it against
+    worstCategory: ranked.length > 1 ? ranked[ranked.length - 1] : null,
+    currentStreak: current,
+    longestStreak: longest,
+  };
+}
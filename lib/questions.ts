@@ -0,0 +1,25 @@
+// Characters the voice assistant either reads out literally or chokes on.
+const VOICE_BREAKING_CHARACTERS = /[*#_~`|<>[\]{}\\]/g;
+
+export function sanitizeForVoice(text: string): string {
+  return text
+    .replace(/\//g, ' ')
+    .replace(VOICE_BREAKING_CHARACTERS, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Interviews created before questions were structured store plain strings.
+export function normalizeQuestions(questions: Array<string | InterviewQuestion> = []): InterviewQuestion[] {
+  return questions.map((question) =>
+    typeof question === 'string'
+      ? {
+          text: question,
+          category: 'technical',
+          difficulty: 'medium',
+          expectedKeyPoints: [],
+          estimatedAnswerTime: 120,
+        }
+      : question
+  );
+}
@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { defaultRubric, questionScoreSchema, systemDesignRubric } from "@/constants";
+
+const matches = (expected: string | undefined, actual: string | undefined) =>
+  !expected || (!!actual && actual.toLowerCase().includes(expected.toLowerCase()));
+
+// Picks the most specific rubric whose type, role and level all match the
+// interview. Fields left empty on a rubric act as wildcards. The built-in
+// system design rubric only wins when nothing stored is at least as specific.
+export function selectRubric(rubrics: Rubric[], interview: Pick<Interview, 'type' | 'role' | 'level'> | null): Rubric {
+  if (!interview) return defaultRubric;
+
+  const candidates = [...rubrics, systemDesignRubric]
+    .filter((rubric) =>
+      matches(rubric.type, interview.type) &&
+      matches(rubric.role, interview.role) &&
+      matches(rubric.level, interview.level)
+    )
+    .map((rubric) => ({
+      rubric,
+      specificity: [rubric.type, rubric.role, rubric.level].filter(Boolean).length,
+    }))
+    .sort((a, b) => b.specificity - a.specificity);
+
+  return candidates[0]?.rubric ?? defaultRubric;
+}
+
+export function buildFeedbackSchema(rubric: Rubric) {
+  const categories = rubric.categories.map((category) =>
+    z.object({
+      name: z.literal(category.name),
+      score: z.number(),
+      comment: z.string(),
+    })
+  );
+
+  return z.object({
+    categoryScores: z.tuple(categories as [typeof categories[number], ...typeof categories]),
+    questionScores: z.array(questionScoreSchema),
+    strengths: z.array(z.string()),
+    areasForImprovement: z.array(z.string()),
+    finalAssessment: z.string(),
+  });
+}
+
+export function buildRubricPrompt(rubric: Rubric): string {
+  return rubric.categories
+    .map((category) => {
+      const anchors = [...category.anchors]
+        .sort((a, b) => b.score - a.score)
+        .map((anchor) => `    - ${anchor.score}: ${anchor.description}`)
+        .join('\n');
+
+      return `- **${category.name}**: ${category.description}\n${anchors}`;
+    })
+    .join('\n');
+}
+
+// The overall score is always derived from the category scores so it can't
+// drift from the breakdown the candidate sees.
+export function computeTotalScore(rubric: Rubric, categoryScores: Array<{ name: string; score: number }>): number {
+  const totalWeight = rubric.categories.reduce((sum, category) => sum + category.weight, 0);
+
+  if (totalWeight <= 0) return 0;
+
+  const weightedSum = rubric.categories.reduce((sum, category) => {
+    const score = categoryScores.find((item) => item.name === category.name)?.score ?? 0;
+
+    return sum + Math.min(100, Math.max(0, score)) * category.weight;
+  }, 0);
+
+  return Math.round(weightedSum / totalWeight);
+}
@@ -0,0 +1,52 @@
+import { normalizeTechStack } from "@/lib/tech";
+
+type SearchableInterview = Pick<Interview, 'role' | 'level' | 'type' | 'techstack'>;
+
+export const normalizeTerm = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Voice-generated interviews store whatever the candidate said ("mid-level",
+// "behavioral", "a mix of both"), so levels and types are folded onto the
+// same values the filters offer.
+export function normalizeLevel(level: string): string {
+  const term = normalizeTerm(level);
+
+  if (/jun|entry|intern|grad/.test(term)) return 'junior';
+  if (/sen|lead|staff|principal/.test(term)) return 'senior';
+  if (/mid|intermediate/.test(term)) return 'mid';
+
+  return term;
+}
+
+export function normalizeType(type: string): string {
+  const term = normalizeTerm(type);
+
+  if (/system\s*design/.test(term)) return 'system design';
+  if (/mix|both/.test(term)) return 'mixed';
+  if (/behav/.test(term)) return 'behavioural';
+  if (/tech/.test(term)) return 'technical';
+
+  return term;
+}
+
+// Canonical names first, so searching "reactjs" finds interviews tagged "React".
+export const techSearchTerms = (techstack: string[]) => normalizeTechStack(techstack).map(normalizeTerm);
+
+// Written next to the display values when an interview is created, so
+// filters can be pushed down to Firestore as exact matches.
+export const buildSearchFields = ({ role, level, type, techstack }: SearchableInterview): InterviewSearchFields => ({
+  role: normalizeTerm(role),
+  level: normalizeLevel(level),
+  type: normalizeType(type),
+  techstack: techSearchTerms(techstack),
+});
+
+// Free text can't be indexed in Firestore, so it is matched after the query:
+// every word has to appear in the role or in one of the questions.
+export function matchesText(interview: Pick<Interview, 'role' | 'questions'>, text: string): boolean {
+  const haystack = normalizeTerm([interview.role, ...interview.questions.map((question) => question.text)].join(' '));
+
+  return normalizeTerm(text)
+    .split(' ')
+    .filter(Boolean)
+    .every((word) => haystack.includes(word));
+}
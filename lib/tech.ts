@@ -0,0 +1,27 @@
+import { techCatalog } from "@/constants";
+
+const DEVICON_BASE_URL = "https://cdn.jsdelivr.net/gh/devicons/devicon/icons";
+
+const toKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9+#]/g, "");
+
+const catalogByKey = new Map(
+  techCatalog.flatMap((entry) => [entry.name, ...entry.aliases].map((alias) => [toKey(alias), entry] as const))
+);
+
+export const findTech = (value: string): TechCatalogEntry | undefined => catalogByKey.get(toKey(value));
+
+// Anything outside the catalog is kept as typed, minus stray whitespace.
+export const normalizeTech = (value: string) => findTech(value)?.name ?? value.trim().replace(/\s+/g, " ");
+
+export function normalizeTechStack(techstack: string[]): string[] {
+  const normalized = techstack.map(normalizeTech).filter(Boolean);
+
+  // dedupe on the alias key so "Kafka" and "kafka" collapse too
+  return normalized.filter((tech, index) => normalized.findIndex((other) => toKey(other) === toKey(tech)) === index);
+}
+
+export const getTechIconUrl = (value: string) => {
+  const icon = findTech(value)?.icon;
+
+  return icon ? `${DEVICON_BASE_URL}/${icon}` : null;
+};
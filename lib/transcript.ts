@@ -0,0 +1,90 @@
+const STOP_WORDS = new Set([
+  'about', 'what', 'when', 'where', 'which', 'while', 'with', 'would', 'could', 'should', 'your', 'have',
+  'that', 'this', 'there', 'their', 'them', 'they', 'from', 'into', 'does', 'tell', 'explain', 'describe',
+]);
+
+// the client sends roles as plain strings, only their values matter here
+type SpokenTurn = { role: string; content: string };
+
+const keywords = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9+#]+/)
+    .filter((word) => word.length > 3 && !STOP_WORDS.has(word));
+
+export const formatOffset = (timestamp: string, startedAt: string): string => {
+  const seconds = Math.max(0, Math.round((Date.parse(timestamp) - Date.parse(startedAt)) / 1000));
+  const minutes = Math.floor(seconds / 60);
+
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// The interviewer paraphrases questions and wraps them in acknowledgements,
+// so a question counts as asked once most of its keywords show up in one
+// assistant turn. Progress only moves forward, an interviewer referring back
+// to an earlier question doesn't rewind the indicator.
+export function findCurrentQuestion(questions: string[], turns: SpokenTurn[]): number {
+  const questionKeywords = questions.map(keywords);
+  let current = -1;
+
+  turns
+    .filter((turn) => turn.role === 'assistant')
+    .forEach((turn) => {
+      const spoken = new Set(keywords(turn.content));
+
+      questionKeywords.forEach((words, index) => {
+        if (index <= current || words.length === 0) return;
+
+        const matched = words.filter((word) => spoken.has(word)).length;
+
+        if (matched / words.length >= 0.6) current = index;
+      });
+    });
+
+  return current;
+}
+
+const MIN_CANDIDATE_TURNS = 2;
+const MIN_CANDIDATE_WORDS = 30;
+const MIN_QUESTIONS_REACHED = 0.5;
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Decides whether an attempt has enough in it to be worth scoring. Anything
+// below the bar is stored as incomplete instead of letting the model invent
+// a score for a call that barely happened.
+export function assessTranscript(transcript: SpokenTurn[], questions: string[]): TranscriptAssessment {
+  const candidateTurns = transcript.filter((turn) => turn.role === 'user');
+  const candidateWords = candidateTurns.reduce((total, turn) => total + countWords(turn.content), 0);
+
+  // keyword matching misses heavily paraphrased questions, so every question
+  // the interviewer asked after the opening "are you ready?" counts as well
+  const askedTurns = transcript.filter((turn) => turn.role === 'assistant' && turn.content.includes('?')).length;
+  const questionsReached = Math.min(
+    questions.length,
+    Math.max(findCurrentQuestion(questions, transcript) + 1, askedTurns - 1)
+  );
+
+  const reasons: string[] = [];
+
+  if (candidateTurns.length < MIN_CANDIDATE_TURNS) {
+    reasons.push(`You answered ${candidateTurns.length} ${candidateTurns.length === 1 ? 'time' : 'times'}, at least ${MIN_CANDIDATE_TURNS} answers are needed.`);
+  }
+
+  if (candidateWords < MIN_CANDIDATE_WORDS) {
+    reasons.push(`Your answers were ${candidateWords} words in total, at least ${MIN_CANDIDATE_WORDS} are needed.`);
+  }
+
+  if (questions.length > 0 && questionsReached / questions.length < MIN_QUESTIONS_REACHED) {
+    reasons.push(`The interview reached ${questionsReached} of ${questions.length} questions, at least half are needed.`);
+  }
+
+  return {
+    isComplete: reasons.length === 0,
+    candidateTurns: candidateTurns.length,
+    candidateWords,
+    questionsReached,
+    totalQuestions: questions.length,
+    reasons,
+  };
+}
@@ -0,0 +1,80 @@
+import { normalizeType } from '@/lib/search';
+
+export const BOARD_WIDTH = 800;
+export const BOARD_HEIGHT = 450;
+export const NODE_WIDTH = 140;
+export const NODE_HEIGHT = 56;
+
+export const emptyDiagram: WhiteboardDiagram = { nodes: [], edges: [] };
+
+export const isSystemDesignInterview = (type: string) => normalizeType(type) === 'system design';
+
+export const hasDiagram = (diagram: WhiteboardDiagram | null | undefined): diagram is WhiteboardDiagram =>
+  !!diagram && diagram.nodes.length > 0;
+
+// New boxes are laid out on a grid so they never land on top of each other,
+// the candidate drags them where they belong afterwards.
+export function nextNodePosition(diagram: WhiteboardDiagram) {
+  const columns = Math.floor(BOARD_WIDTH / (NODE_WIDTH + 20));
+  const index = diagram.nodes.length;
+
+  return {
+    x: 20 + (index % columns) * (NODE_WIDTH + 20),
+    y: 20 + (Math.floor(index / columns) % 5) * (NODE_HEIGHT + 30),
+  };
+}
+
+// Arrows stop at the border of the target box instead of its centre, so the
+// arrowhead isn't hidden underneath it.
+export function boxBorderPoint(from: DiagramNode, to: DiagramNode) {
+  const fromX = from.x + NODE_WIDTH / 2;
+  const fromY = from.y + NODE_HEIGHT / 2;
+  const dx = to.x + NODE_WIDTH / 2 - fromX;
+  const dy = to.y + NODE_HEIGHT / 2 - fromY;
+
+  if (dx === 0 && dy === 0) return { x: fromX, y: fromY };
+
+  const scale = Math.min(
+    dx === 0 ? Infinity : NODE_WIDTH / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : NODE_HEIGHT / 2 / Math.abs(dy)
+  );
+
+  return { x: fromX + dx * (1 - scale), y: fromY + dy * (1 - scale) };
+}
+
+export const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+// Edges pointing at boxes that no longer exist are dropped and boxes are kept
+// on the board, whatever the client sent.
+export function cleanDiagram(diagram: WhiteboardDiagram): WhiteboardDiagram {
+  const nodeIds = new Set(diagram.nodes.map((node) => node.id));
+
+  return {
+    nodes: diagram.nodes.map((node) => ({
+      ...node,
+      x: clamp(node.x, BOARD_WIDTH - NODE_WIDTH),
+      y: clamp(node.y, BOARD_HEIGHT - NODE_HEIGHT),
+    })),
+    edges: diagram.edges.filter((edge) => nodeIds.has(edge.from) && nodeIds.has(edge.to) && edge.from !== edge.to),
+  };
+}
+
+// The model and the interviewer can't look at the drawing, so it is handed
+// to them as a plain list of components and the connections between them.
+export function describeDiagram(diagram: WhiteboardDiagram): string {
+  const labels = new Map(diagram.nodes.map((node) => [node.id, node.label || 'Unnamed component']));
+  const connected = new Set(diagram.edges.flatMap((edge) => [edge.from, edge.to]));
+
+  const components = diagram.nodes
+    .map((node) => `- ${labels.get(node.id)}${connected.has(node.id) ? '' : ' (not connected to anything)'}`)
+    .join('\n');
+
+  const connections = diagram.edges
+    .map((edge) => `- ${labels.get(edge.from)} -> ${labels.get(edge.to)}${edge.label ? ` (${edge.label})` : ''}`)
+    .join('\n');
+
+  return `Components:
+${components || '- none'}
+Connections:
+${connections || '- none'}`;
+}
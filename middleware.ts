@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+const AUTH_ROUTES = ['/sign-in', '/sign-up', '/forgot-password'];
+
+// Runs on the edge, where firebase-admin isn't available, so this only checks
+// that a session cookie is present. Pages verify it with requireUser().
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const hasSession = request.cookies.has('session');
+  const isAuthRoute = AUTH_ROUTES.some((route) => pathname.startsWith(route));
+
+  if (isAuthRoute && hasSession) {
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+
+  if (!isAuthRoute && !hasSession) {
+    return NextResponse.redirect(new URL('/sign-in', request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico|.*\\..*).*)'],
+};
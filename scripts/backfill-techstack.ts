@@ -0,0 +1,72 @@
+// Rewrites the tech stack of existing interviews and user preferences onto the
+// canonical catalog, and fills in the search fields, visibility and attempt
+// count older interviews lack. Listing and search filter and sort on them
+// inside Firestore, so an interview without them doesn't show up until this
+// has run.
+//
+//   npm run backfill [-- --dry-run]
+import type { DocumentData, DocumentReference } from "firebase-admin/firestore";
+import { db } from "@/firebase/admin";
+import { buildSearchFields } from "@/lib/search";
+import { normalizeTechStack } from "@/lib/tech";
+
+const BATCH_SIZE = 400;
+const dryRun = process.argv.includes("--dry-run");
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+async function backfill(collection: string, buildUpdate: (data: DocumentData) => DocumentData | null) {
+  const snapshot = await db.collection(collection).get();
+  const updates = snapshot.docs
+    .map((doc) => ({ ref: doc.ref, update: buildUpdate(doc.data()) }))
+    .filter((item): item is { ref: DocumentReference; update: DocumentData } => !!item.update);
+
+  console.log(`${collection}: ${updates.length} of ${snapshot.size} documents need updating`);
+
+  if (dryRun) return;
+
+  for (let start = 0; start < updates.length; start += BATCH_SIZE) {
+    const batch = db.batch();
+
+    updates.slice(start, start + BATCH_SIZE).forEach(({ ref, update }) => batch.update(ref, update));
+
+    await batch.commit();
+  }
+}
+
+async function main() {
+  await backfill("interviews", (data) => {
+    const techstack = normalizeTechStack(data.techstack ?? []);
+    const search = buildSearchFields({
+      role: data.role ?? "",
+      level: data.level ?? "",
+      type: data.type ?? "",
+      techstack,
+    });
+
+    // interviews from before visibility existed were always listed
+    const visibility = data.visibility ?? "public";
+    // sorting by popularity leaves out interviews without a count
+    const attemptCount = data.attemptCount ?? 0;
+
+    return isSame(techstack, data.techstack) && isSame(search, data.search)
+      && visibility === data.visibility && attemptCount === data.attemptCount
+      ? null
+      : { techstack, search, visibility, attemptCount };
+  });
+
+  await backfill("users", (data) => {
+    if (!data.preferredTechStack) return null;
+
+    const preferredTechStack = normalizeTechStack(data.preferredTechStack);
+
+    return isSame(preferredTechStack, data.preferredTechStack) ? null : { preferredTechStack };
+  });
+
+  console.log(dryRun ? "Dry run, nothing was written" : "Backfill complete");
+}
+
+main().catch((error) => {
+  console.error("Backfill failed!", error);
+  process.exit(1);
+});
@@ -1,41 +1,252 @@
 interface Feedback {
   id: string;
   interviewId: string;
+  userId: string;
   totalScore: number;
   categoryScores: Array<{
     name: string;
     score: number;
     comment: string;
   }>;
+  questionScores?: QuestionScore[];
   strengths: string[];
   areasForImprovement: string[];
   finalAssessment: string;
+  rubricId?: string;
+  sessionId?: string;
+  sharedWith?: string[];
+  status?: FeedbackStatus;
+  assessment?: TranscriptAssessment;
+  error?: string;
   createdAt: string;
+  updatedAt?: string;
+}
+
+type FeedbackStatus = "pending" | "processing" | "complete" | "failed" | "incomplete";
+
+interface TranscriptAssessment {
+  isComplete: boolean;
+  candidateTurns: number;
+  candidateWords: number;
+  questionsReached: number;
+  totalQuestions: number;
+  reasons: string[];
+}
+
+type QuestionVerdict = "answered" | "partial" | "skipped";
+
+interface QuestionScore {
+  question: string;
+  verdict: QuestionVerdict;
+  score: number;
+  comment: string;
+  modelAnswerHints: string[];
+  candidateQuotes: string[];
+}
+
+interface RubricAnchor {
+  score: number;
+  description: string;
+}
+
+interface RubricCategory {
+  name: string;
+  weight: number;
+  description: string;
+  anchors: RubricAnchor[];
+}
+
+interface Rubric {
+  id: string;
+  name: string;
+  type?: string;
+  role?: string;
+  level?: string;
+  categories: RubricCategory[];
+}
+
+type QuestionCategory = "technical" | "behavioural";
+
+type QuestionDifficulty = "easy" | "medium" | "hard";
+
+interface InterviewQuestion {
+  text: string;
+  category: QuestionCategory;
+  difficulty: QuestionDifficulty;
+  expectedKeyPoints: string[];
+  estimatedAnswerTime: number;
 }
 
+type InterviewVisibility = "private" | "link" | "public";
+
 interface Interview {
   id: string;
   role: string;
   level: string;
-  questions: string[];
+  questions: InterviewQuestion[];
   techstack: string[];
   createdAt: string;
   userId: string;
   type: string;
   finalized: boolean;
+  visibility: InterviewVisibility;
+  search?: InterviewSearchFields;
+  attemptCount?: number;
+  codingChallenge?: PublicCodingChallenge | null;
+}
+
+type CodingLanguage = "javascript" | "typescript";
+
+// Arguments and expected values are JSON strings, Firestore can't store nested arrays.
+interface CodingTestCase {
+  args: string;
+  expected: string;
+}
+
+interface CodingChallenge {
+  title: string;
+  prompt: string;
+  language: CodingLanguage;
+  functionName: string;
+  starterCode: string;
+  tests: CodingTestCase[];
+}
+
+// What the candidate's browser gets: the tests stay on the server.
+interface PublicCodingChallenge extends Omit<CodingChallenge, "tests"> {
+  testCount: number;
+}
+
+// No error text per test: it is written by the candidate's code and could
+// carry the hidden inputs back to the browser.
+interface CodingTestResult {
+  passed: boolean;
+  threw?: boolean;
+}
+
+interface CodeRunResult {
+  results: CodingTestResult[];
+  logs: string[];
+  error?: string;
+  timedOut: boolean;
+}
+
+interface InterviewSearchFields {
+  role: string;
+  level: string;
+  type: string;
+  techstack: string[];
+}
+
+interface TechCatalogEntry {
+  name: string;
+  aliases: string[];
+  icon?: string;
+}
+
+type InterviewSortOrder = "recent" | "popular";
+
+interface SearchInterviewsParams {
+  text?: string;
+  role?: string;
+  level?: string;
+  type?: string;
+  techstack?: string[];
+  sort?: InterviewSortOrder;
+}
+
+interface InterviewSearchResult {
+  interviews: Interview[];
+  // role and text were only matched against part of the interviews
+  isPartial: boolean;
+}
+
+type SessionEndReason = "candidate-ended" | "assistant-ended" | "error";
+
+// Chat attempts have no code editor, so they can't submit a coding challenge.
+type InterviewMode = "voice" | "chat";
+
+interface TranscriptTurn {
+  role: "user" | "system" | "assistant";
+  content: string;
+  timestamp: string;
+}
+
+interface DiagramNode {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+}
+
+interface DiagramEdge {
+  id: string;
+  from: string;
+  to: string;
+  label?: string;
+}
+
+interface WhiteboardDiagram {
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+interface InterviewSession {
+  id: string;
+  interviewId: string;
+  userId: string;
+  feedbackId: string | null;
+  transcript: TranscriptTurn[];
+  startedAt: string;
+  endedAt: string;
+  duration: number;
+  endReason: SessionEndReason;
+  mode?: InterviewMode;
+  diagram?: WhiteboardDiagram | null;
+  createdAt: string;
+}
+
+interface SessionDraft {
+  interviewId: string;
+  transcript: TranscriptTurn[];
+  startedAt: string | null;
+  diagram?: WhiteboardDiagram | null;
+  updatedAt: string;
 }
 
 interface CreateFeedbackParams {
   interviewId: string;
   userId: string;
-  transcript: { role: string; content: string }[];
+  transcript: { role: string; content: string; timestamp?: string }[];
+  idempotencyKey: string;
+  diagram?: WhiteboardDiagram | null;
   feedbackId?: string;
+  startedAt?: string;
+  endedAt?: string;
+  endReason?: SessionEndReason;
+  mode?: InterviewMode;
 }
 
-interface User {
+interface UserPreferences {
+  targetRole?: string;
+  experienceLevel?: string;
+  preferredTechStack?: string[];
+  interviewerVoice?: string;
+  speakingSpeed?: number;
+  defaultQuestionCount?: number;
+}
+
+interface User extends UserPreferences {
   name: string;
   email: string;
   id: string;
+  verifiedEmail: string | null;
+  avatarUrl?: string;
+}
+
+interface UpdateProfileParams extends Required<UserPreferences> {
+  name: string;
+  avatarUrl: string;
 }
 
 interface InterviewCardProps {
@@ -50,10 +261,15 @@ interface InterviewCardProps {
 interface AgentProps {
   userName: string;
   userId?: string;
+  userAvatar?: string;
+  preferences?: UserPreferences;
+  draft?: SessionDraft | null;
   interviewId?: string;
   feedbackId?: string;
   type: "generate" | "interview";
   questions?: string[];
+  codingChallenge?: PublicCodingChallenge | null;
+  showWhiteboard?: boolean;
 }
 
 interface RouteParams {
@@ -66,30 +282,145 @@ interface GetFeedbackByInterviewIdParams {
   userId: string;
 }
 
+interface UpdateInterviewQuestionsParams {
+  interviewId: string;
+  questions: InterviewQuestion[];
+  finalize?: boolean;
+}
+
+interface RegenerateQuestionParams {
+  interviewId: string;
+  questions: InterviewQuestion[];
+  index?: number;
+}
+
+interface SubmitCodingSolutionParams {
+  interviewId: string;
+  code: string;
+}
+
+interface TranspileSolutionParams {
+  code: string;
+  language: CodingLanguage;
+}
+
+interface ShareFeedbackParams {
+  feedbackId: string;
+  email: string;
+}
+
+interface UpdateInterviewVisibilityParams {
+  interviewId: string;
+  visibility: InterviewVisibility;
+}
+
+interface ProgressPoint {
+  date: string;
+  score: number;
+}
+
+interface ProgressAttempt {
+  feedbackId: string;
+  interviewId: string;
+  role: string;
+  type: string;
+  totalScore: number;
+  createdAt: string;
+}
+
+interface CategoryTrend {
+  name: string;
+  points: ProgressPoint[];
+  average: number;
+}
+
+interface ProgressSummary {
+  attempts: ProgressAttempt[];
+  averageScore: number;
+  bestScore: number;
+  categoryTrends: CategoryTrend[];
+  bestCategory: CategoryTrend | null;
+  worstCategory: CategoryTrend | null;
+  currentStreak: number;
+  longestStreak: number;
+}
+
+interface CategoryDelta {
+  name: string;
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+}
+
+interface WeaknessStatus {
+  area: string;
+  addressed: boolean;
+}
+
+interface AttemptComparison {
+  totalDelta: number;
+  categoryDeltas: CategoryDelta[];
+  newStrengths: string[];
+  weaknesses: WeaknessStatus[];
+}
+
+interface GetInterviewsParams {
+  finalized?: boolean;
+  cursor?: string;
+  limit?: number;
+}
+
 interface GetLatestInterviewsParams {
   userId: string;
+  cursor?: string;
   limit?: number;
 }
 
+interface InterviewPage {
+  interviews: Interview[];
+  nextCursor: string | null;
+}
+
+interface GetLatestFeedbackByInterviewIdsParams {
+  interviewIds: string[];
+  userId: string;
+}
+
 interface SignInParams {
   email: string;
   idToken: string;
 }
 
 interface SignUpParams {
-  uid: string;
+  idToken: string;
   name: string;
-  email: string;
-  password: string;
+}
+
+interface SignOutParams {
+  allDevices?: boolean;
 }
 
 type FormType = "sign-in" | "sign-up";
 
 interface InterviewFormProps {
-  interviewId: string;
+  interviewId?: string;
+  role: string;
+  level: string;
+  type: string;
+  techstack: string[];
+  amount: number;
+  includeCodingChallenge: boolean;
+}
+
+interface CreateInterviewParams {
   role: string;
   level: string;
   type: string;
   techstack: string[];
   amount: number;
+  includeCodingChallenge?: boolean;
+}
+
+interface GenerateInterviewParams extends CreateInterviewParams {
+  userId: string;
 }